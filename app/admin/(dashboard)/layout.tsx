@@ -0,0 +1,28 @@
+import type React from "react"
+import Link from "next/link"
+import { button, link, page } from "@/app/admin/styles"
+import { getDefaultBrandProfile } from "@/lib/brands"
+
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const brand = await getDefaultBrandProfile()
+
+  return (
+    <div style={page}>
+      <header style={{ display: "flex", alignItems: "center", gap: "1.5rem" }}>
+        <h1 style={{ fontSize: "1.4rem" }}>{brand.companyName} Admin</h1>
+        <Link href="/admin" style={link}>
+          Overview
+        </Link>
+        <Link href="/admin/leads" style={link}>
+          Leads
+        </Link>
+        <form method="post" action="/api/admin/logout" style={{ marginLeft: "auto" }}>
+          <button type="submit" style={button}>
+            Sign out
+          </button>
+        </form>
+      </header>
+      {children}
+    </div>
+  )
+}
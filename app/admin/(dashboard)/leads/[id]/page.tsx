@@ -0,0 +1,97 @@
+import { notFound } from "next/navigation"
+import { requireAdmin } from "@/app/admin/auth"
+import { cell, link, panel, table } from "@/app/admin/styles"
+import { getLeadStore } from "@/lib/leads"
+import { renderImagePath } from "@/lib/renders"
+import { listLeadSessions, sharePath } from "@/lib/sessions"
+
+export const dynamic = "force-dynamic"
+
+export default async function AdminLead({ params }: { params: { id: string } }) {
+  await requireAdmin()
+
+  const lead = await getLeadStore().get(params.id)
+  if (!lead) notFound()
+  const sessions = await listLeadSessions(lead.id)
+
+  return (
+    <>
+      <section style={panel}>
+        <h2>{lead.name}</h2>
+        <p>
+          {lead.email} · {lead.phone ?? "no phone"} · {lead.source} · first seen{" "}
+          {new Date(lead.createdAt).toLocaleString()}
+        </p>
+        {lead.otherEmails?.length ? <p>Also sent in with this phone number: {lead.otherEmails.join(", ")}</p> : null}
+        <h3 style={{ marginTop: "1rem" }}>Requests</h3>
+        <table style={table}>
+          <thead>
+            <tr>
+              {["Time", "Room", "Style", "Budget", "Cooking", "Family", "Storage"].map((heading) => (
+                <th key={heading} style={cell}>
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {lead.activity
+              .slice()
+              .reverse()
+              .map(({ timestamp, preferences }) => (
+                <tr key={timestamp}>
+                  <td style={cell}>{new Date(timestamp).toLocaleString()}</td>
+                  <td style={cell}>{preferences.room}</td>
+                  <td style={cell}>{preferences.style}</td>
+                  <td style={cell}>{preferences.budget}</td>
+                  <td style={cell}>{preferences.cooking || "—"}</td>
+                  <td style={cell}>{preferences.family}</td>
+                  <td style={cell}>{preferences.storage}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </section>
+
+      {sessions
+        .slice()
+        .reverse()
+        .map((session) => (
+          <section key={session.id} style={panel}>
+            <h3>
+              {session.roomType} session, {new Date(session.createdAt).toLocaleString()} ({session.renderMode} renders)
+            </h3>
+            <p>
+              <a href={sharePath(session)} style={link}>
+                Shared view
+              </a>{" "}
+              · <code>{session.id}</code>
+            </p>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(260px, 1fr))", gap: "1rem" }}>
+              {session.designs.map((design) => (
+                <div key={design.designId} style={{ background: "white", padding: "0.75rem", borderRadius: "6px" }}>
+                  {design.renderId ? (
+                    <img src={renderImagePath(design.renderId)} alt={design.styleName} style={{ width: "100%" }} />
+                  ) : (
+                    <p style={{ color: "#b91c1c" }}>Render failed</p>
+                  )}
+                  <strong>{design.styleName}</strong>
+                  <p>
+                    {design.estimatedCost}
+                    {design.overBudget && " (over budget)"}
+                  </p>
+                  {design.refinement && <p>Refinement: {design.refinement}</p>}
+                  {design.imagePrompt && (
+                    <details>
+                      <summary>Image prompt</summary>
+                      <pre style={{ whiteSpace: "pre-wrap", fontSize: "0.8rem" }}>{design.imagePrompt}</pre>
+                    </details>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        ))}
+    </>
+  )
+}
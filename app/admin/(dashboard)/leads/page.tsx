@@ -0,0 +1,64 @@
+import Link from "next/link"
+import { requireAdmin } from "@/app/admin/auth"
+import { button, cell, link, panel, table } from "@/app/admin/styles"
+import { searchLeads } from "@/lib/leads"
+
+export const dynamic = "force-dynamic"
+
+export default async function AdminLeads({ searchParams }: { searchParams: { q?: string } }) {
+  await requireAdmin()
+
+  const query = searchParams.q || ""
+  const leads = await searchLeads(query)
+  const exportUrl = `/api/admin/leads/export${query ? `?q=${encodeURIComponent(query)}` : ""}`
+
+  return (
+    <section style={panel}>
+      <div style={{ display: "flex", gap: "1rem", alignItems: "center", marginBottom: "1rem" }}>
+        <h2>Leads ({leads.length})</h2>
+        <form method="get" style={{ display: "flex", gap: "0.5rem" }}>
+          <input name="q" defaultValue={query} placeholder="Name, email or phone" style={{ padding: "0.4rem" }} />
+          <button type="submit" style={button}>
+            Search
+          </button>
+        </form>
+        <a href={exportUrl} style={{ ...link, marginLeft: "auto" }}>
+          Export CSV
+        </a>
+      </div>
+
+      <table style={table}>
+        <thead>
+          <tr>
+            {["Name", "Email", "Phone", "Room", "Style", "Budget", "Storage", "Requests", "Last activity"].map(
+              (heading) => (
+                <th key={heading} style={cell}>
+                  {heading}
+                </th>
+              ),
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {leads.map((lead) => (
+            <tr key={lead.id}>
+              <td style={cell}>
+                <Link href={`/admin/leads/${lead.id}`} style={link}>
+                  {lead.name}
+                </Link>
+              </td>
+              <td style={cell}>{lead.email}</td>
+              <td style={cell}>{lead.phone ?? "—"}</td>
+              <td style={cell}>{lead.preferences.room}</td>
+              <td style={cell}>{lead.preferences.style}</td>
+              <td style={cell}>{lead.preferences.budget}</td>
+              <td style={cell}>{lead.preferences.storage}</td>
+              <td style={cell}>{lead.activity.length}</td>
+              <td style={cell}>{new Date(lead.updatedAt).toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  )
+}
@@ -0,0 +1,93 @@
+import { requireAdmin } from "@/app/admin/auth"
+import { cell, panel, table } from "@/app/admin/styles"
+import { listRecentErrors, summarizeDailyActivity } from "@/lib/activity"
+import { type BudgetPeriod, getBudgetStatus } from "@/lib/spend"
+
+export const dynamic = "force-dynamic"
+
+function formatBudget({ spentUsd, limitUsd }: BudgetPeriod): string {
+  return `$${spentUsd.toFixed(2)}${limitUsd === null ? "" : ` of $${limitUsd.toFixed(2)}`}`
+}
+
+export default async function AdminOverview() {
+  await requireAdmin()
+
+  const [daily, errors, budget] = await Promise.all([
+    summarizeDailyActivity(14),
+    listRecentErrors(25),
+    getBudgetStatus(),
+  ])
+
+  return (
+    <>
+      <section style={panel}>
+        <h2>AI spend</h2>
+        <p>
+          Today: {formatBudget(budget.daily)} · This month: {formatBudget(budget.monthly)}
+          {budget.mode !== "normal" && <strong> · Cap reached, generation is {budget.mode}</strong>}
+        </p>
+      </section>
+
+      <section style={panel}>
+        <h2>Last 14 days</h2>
+        <table style={table}>
+          <thead>
+            <tr>
+              {["Day (UTC)", "Analyses", "Generations", "Images", "Images failed", "Errors"].map((heading) => (
+                <th key={heading} style={cell}>
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {daily.map((row) => (
+              <tr key={row.day}>
+                <td style={cell}>{row.day}</td>
+                <td style={cell}>{row.analyses}</td>
+                <td style={cell}>{row.generations}</td>
+                <td style={cell}>{row.imagesGenerated}</td>
+                <td style={{ ...cell, color: row.imagesFailed > 0 ? "#b91c1c" : undefined }}>{row.imagesFailed}</td>
+                <td style={cell}>{row.errors}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section style={panel}>
+        <h2>Recent errors</h2>
+        {errors.length === 0 ? (
+          <p>No errors in the last 30 days.</p>
+        ) : (
+          <table style={table}>
+            <thead>
+              <tr>
+                {["Time", "Source", "Message", "Request", "Session"].map((heading) => (
+                  <th key={heading} style={cell}>
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {errors.map((error) => (
+                <tr key={error.id}>
+                  <td style={cell}>{new Date(error.timestamp).toLocaleString()}</td>
+                  <td style={cell}>{error.source}</td>
+                  <td style={cell}>{error.message}</td>
+                  <td style={cell}>
+                    <code>{error.requestId ?? "—"}</code>
+                  </td>
+                  <td style={cell}>
+                    <code>{error.sessionId ?? "—"}</code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </>
+  )
+}
@@ -0,0 +1,11 @@
+import { cookies } from "next/headers"
+import { redirect } from "next/navigation"
+import { ADMIN_SESSION_COOKIE, isAdminSession } from "@/lib/admin-auth"
+
+// Every dashboard page calls this itself; layouts aren't re-rendered on
+// client navigation, so a check there alone wouldn't guard the page data
+export async function requireAdmin() {
+  if (!(await isAdminSession(cookies().get(ADMIN_SESSION_COOKIE)?.value))) {
+    redirect("/admin/login")
+  }
+}
@@ -0,0 +1,30 @@
+import { button, page, panel } from "@/app/admin/styles"
+
+export default function AdminLogin({ searchParams }: { searchParams: { error?: string } }) {
+  return (
+    <div style={page}>
+      <h1>Admin sign in</h1>
+      <form method="post" action="/api/admin/login" style={{ ...panel, maxWidth: 420 }}>
+        <label htmlFor="token">Admin token</label>
+        <input
+          id="token"
+          name="token"
+          type="password"
+          autoComplete="current-password"
+          required
+          style={{ display: "block", width: "100%", margin: "0.5rem 0 1rem", padding: "0.4rem" }}
+        />
+        {searchParams.error && (
+          <p style={{ color: "#b91c1c", marginBottom: "1rem" }}>
+            {searchParams.error === "limit"
+              ? "Too many sign-in attempts. Try again later."
+              : "That token wasn't accepted."}
+          </p>
+        )}
+        <button type="submit" style={button}>
+          Sign in
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import type { CSSProperties } from "react"
+
+// Shared inline styles for the admin pages, matching the API landing page
+
+export const page: CSSProperties = { padding: "2rem", fontFamily: "system-ui", maxWidth: 1200, margin: "0 auto" }
+
+export const panel: CSSProperties = {
+  marginTop: "1.5rem",
+  padding: "1rem",
+  backgroundColor: "#f5f5f5",
+  borderRadius: "8px",
+}
+
+export const table: CSSProperties = { width: "100%", borderCollapse: "collapse", fontSize: "0.9rem" }
+
+export const cell: CSSProperties = { padding: "0.4rem 0.6rem", borderBottom: "1px solid #ddd", textAlign: "left" }
+
+export const link: CSSProperties = { color: "#1d4ed8", textDecoration: "underline" }
+
+export const button: CSSProperties = {
+  padding: "0.4rem 0.9rem",
+  border: "1px solid #999",
+  borderRadius: "6px",
+  background: "white",
+  cursor: "pointer",
+}
@@ -0,0 +1,79 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { deleteCatalogEntry, getCatalogEntry, getDesignCatalog, upsertCatalogEntry } from "@/lib/catalog"
+import { type CatalogSection, isCatalogKey, isCatalogSection } from "@/lib/catalog/schema"
+import { instrumentRoute } from "@/lib/request-context"
+
+type Params = { params: { section: string; key: string } }
+
+// Shared checks for every method; returns an error response or the section
+async function checkRequest(
+  request: NextRequest,
+  { section, key }: Params["params"],
+): Promise<NextResponse | CatalogSection> {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+  if (!isCatalogSection(section)) {
+    return NextResponse.json({ success: false, error: `Unknown catalog section: ${section}` }, { status: 404 })
+  }
+  if (!isCatalogKey(key)) {
+    return NextResponse.json(
+      { success: false, error: "Keys must be lowercase words joined by dashes" },
+      { status: 400 },
+    )
+  }
+  return section
+}
+
+export const GET = instrumentRoute<Params["params"]>("/api/admin/catalog/[section]/[key]", async (request, { params }) => {
+  const section = await checkRequest(request, params)
+  if (section instanceof NextResponse) return section
+
+  const catalog = await getDesignCatalog()
+  const entry = getCatalogEntry(catalog, section, params.key)
+  if (!entry) {
+    return NextResponse.json({ success: false, error: "Catalog entry not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, key: params.key, entry, version: catalog.version })
+})
+
+// Creates or replaces the entry
+export const PUT = instrumentRoute<Params["params"]>("/api/admin/catalog/[section]/[key]", async (request, { params }) => {
+  const section = await checkRequest(request, params)
+  if (section instanceof NextResponse) return section
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const result = await upsertCatalogEntry(section, params.key, body)
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: "Invalid catalog entry", details: result.errors },
+      { status: 400 },
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    key: params.key,
+    entry: result.catalog[section][params.key],
+    version: result.catalog.version,
+  })
+})
+
+export const DELETE = instrumentRoute<Params["params"]>("/api/admin/catalog/[section]/[key]", async (request, { params }) => {
+  const section = await checkRequest(request, params)
+  if (section instanceof NextResponse) return section
+
+  if (!(await deleteCatalogEntry(section, params.key))) {
+    return NextResponse.json({ success: false, error: "Catalog entry not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { getDesignCatalog } from "@/lib/catalog"
+import { instrumentRoute } from "@/lib/request-context"
+
+export const GET = instrumentRoute("/api/admin/catalog", async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  return NextResponse.json({ success: true, catalog: await getDesignCatalog() })
+})
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { toCsv } from "@/lib/csv"
+import { searchLeads } from "@/lib/leads"
+import { instrumentRoute } from "@/lib/request-context"
+
+// Leads for the sales team as CSV, filtered by the same ?q= as the dashboard
+export const GET = instrumentRoute("/api/admin/leads/export", async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const leads = await searchLeads(request.nextUrl.searchParams.get("q") || "")
+  const csv = toCsv(
+    [
+      "Lead ID",
+      "Created",
+      "Last activity",
+      "Name",
+      "Email",
+      "Phone",
+      "Other emails",
+      "Source",
+      "Room",
+      "Style",
+      "Budget",
+      "Cooking",
+      "Family size",
+      "Storage",
+      "Design requests",
+    ],
+    leads.map((lead) => [
+      lead.id,
+      lead.createdAt,
+      lead.updatedAt,
+      lead.name,
+      lead.email,
+      lead.phone,
+      (lead.otherEmails ?? []).join(" "),
+      lead.source,
+      lead.preferences.room,
+      lead.preferences.style,
+      lead.preferences.budget,
+      lead.preferences.cooking,
+      lead.preferences.family,
+      lead.preferences.storage,
+      lead.activity.length,
+    ]),
+  )
+
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="leads-${new Date().toISOString().slice(0, 10)}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  })
+})
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { ADMIN_SESSION_COOKIE, ADMIN_SESSION_MAX_AGE_SECONDS, createAdminSession, isAdminToken } from "@/lib/admin-auth"
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit"
+import { instrumentRoute } from "@/lib/request-context"
+
+// Form post from /admin/login; exchanges the admin token for a session cookie
+export const POST = instrumentRoute("/api/admin/login", async (request, { log }) => {
+  // Every attempt counts, so the token can't be guessed at request speed
+  const rateLimit = await checkRateLimit("admin-login", { ip: getClientIp(request) })
+  if (!rateLimit.allowed) {
+    log.warn("Admin sign-in rate limited", { resetSeconds: rateLimit.resetSeconds })
+    return NextResponse.redirect(new URL("/admin/login?error=limit", request.url), 303)
+  }
+
+  const formData = await request.formData()
+  const token = formData.get("token")
+
+  const session = typeof token === "string" && isAdminToken(token) ? await createAdminSession() : null
+  if (!session) {
+    return NextResponse.redirect(new URL("/admin/login?error=1", request.url), 303)
+  }
+
+  const response = NextResponse.redirect(new URL("/admin", request.url), 303)
+  response.cookies.set(ADMIN_SESSION_COOKIE, session, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/",
+    maxAge: ADMIN_SESSION_MAX_AGE_SECONDS,
+  })
+  return response
+})
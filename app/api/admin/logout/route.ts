@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { ADMIN_SESSION_COOKIE, revokeAdminSession } from "@/lib/admin-auth"
+import { instrumentRoute } from "@/lib/request-context"
+
+// Ends the session on the server too, so a copied cookie stops working
+export const POST = instrumentRoute("/api/admin/logout", async (request) => {
+  await revokeAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value)
+  const response = NextResponse.redirect(new URL("/admin/login", request.url), 303)
+  response.cookies.delete(ADMIN_SESSION_COOKIE)
+  return response
+})
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { instrumentRoute } from "@/lib/request-context"
+import { getBudgetStatus, summarizeSpend } from "@/lib/spend"
+
+const DAY = 24 * 60 * 60 * 1000
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// Estimated AI spend for ?from=&to= (ISO dates; default the last 30 days),
+// plus where the daily and monthly caps stand right now
+export const GET = instrumentRoute("/api/admin/spend", async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const from = parseDate(request.nextUrl.searchParams.get("from"))
+  const to = parseDate(request.nextUrl.searchParams.get("to"))
+  if (from === null || to === null) {
+    return NextResponse.json({ success: false, error: "from and to must be ISO dates" }, { status: 400 })
+  }
+
+  const end = to ?? new Date()
+  const start = from ?? new Date(end.getTime() - 30 * DAY)
+
+  return NextResponse.json({
+    success: true,
+    budget: await getBudgetStatus(),
+    spend: await summarizeSpend(start, end),
+  })
+})
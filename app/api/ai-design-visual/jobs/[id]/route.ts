@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorizeClient, clientErrorResponse, preflightResponse } from "@/lib/api-clients"
+import { getJob } from "@/lib/jobs"
+import { instrumentRoute } from "@/lib/request-context"
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, "GET, OPTIONS")
+}
+
+export const GET = instrumentRoute<{ id: string }>("/api/ai-design-visual/jobs/[id]", async (request, { params }) => {
+  const clientCheck = await authorizeClient(request, null, "GET, OPTIONS")
+  if (!clientCheck.success) return clientErrorResponse(clientCheck)
+  const { headers } = clientCheck
+
+  const job = await getJob(params.id)
+  if (!job) {
+    return NextResponse.json({ success: false, error: "Job not found or expired" }, { status: 404, headers })
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      leadId: job.leadId,
+      designs: job.designs,
+      stats: job.stats,
+      error: job.error,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    },
+    { headers: { ...headers, "Cache-Control": "no-store" } },
+  )
+})
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { hasBearerToken } from "@/lib/admin-auth"
+import { processLeadWebhooks } from "@/lib/leads/webhook"
+import { instrumentRoute } from "@/lib/request-context"
+
+// Sends CRM deliveries that are due. Vercel Cron calls this with
+// `Authorization: Bearer <CRON_SECRET>` (see vercel.json), so retries still
+// happen on hosts that freeze the process after each response.
+export const GET = instrumentRoute("/api/cron/crm-webhooks", async (request) => {
+  if (!hasBearerToken(request, process.env.CRON_SECRET)) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const run = await processLeadWebhooks()
+  return NextResponse.json({ success: true, sent: run.sent, failed: run.failed, waiting: run.waiting })
+})
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getRender } from "@/lib/renders"
+import { instrumentRoute } from "@/lib/request-context"
+
+export const GET = instrumentRoute<{ id: string }>("/api/designs/[id]/image", async (request, { params }) => {
+  const render = await getRender(params.id)
+  if (!render) {
+    return NextResponse.json({ success: false, error: "Design image not found" }, { status: 404 })
+  }
+
+  // Renders never change once stored, so they can be cached indefinitely
+  const etag = `"${params.id}"`
+  const cacheHeaders = {
+    "Cache-Control": "public, max-age=31536000, immutable",
+    ETag: etag,
+  }
+
+  if (request.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers: cacheHeaders })
+  }
+
+  return new NextResponse(new Uint8Array(render.data), {
+    headers: {
+      ...cacheHeaders,
+      "Content-Type": render.contentType,
+      "Content-Length": String(render.data.length),
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+      "X-Content-Type-Options": "nosniff",
+    },
+  })
+})
@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { hasBearerToken, isAdminRequest } from "@/lib/admin-auth"
+import { renderMetrics } from "@/lib/metrics"
+
+// Scrapers authenticate with `Authorization: Bearer <METRICS_TOKEN>`, so the
+// admin token doesn't have to live in the monitoring config
+async function isMetricsRequest(request: NextRequest): Promise<boolean> {
+  return hasBearerToken(request, process.env.METRICS_TOKEN) || isAdminRequest(request)
+}
+
+// Prometheus text format. Metrics are per process and reset on restart.
+export async function GET(request: NextRequest) {
+  if (!(await isMetricsRequest(request))) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  return new NextResponse(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorizeClient, clientErrorResponse, preflightResponse } from "@/lib/api-clients"
+import { loadProposal } from "@/lib/proposals"
+import { renderProposalPdf } from "@/lib/proposals/pdf"
+import { proposalRequestSchema } from "@/lib/proposals/schema"
+import { instrumentRoute } from "@/lib/request-context"
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request)
+}
+
+// Turns a stored design session into a branded PDF proposal
+export const POST = instrumentRoute("/api/proposals", async (request, { log }) => {
+  const clientCheck = await authorizeClient(request, "proposal")
+  if (!clientCheck.success) return clientErrorResponse(clientCheck)
+  const { client, headers } = clientCheck
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400, headers })
+  }
+
+  const result = proposalRequestSchema.safeParse(body)
+  if (!result.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid proposal request",
+        details: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+      },
+      { status: 400, headers },
+    )
+  }
+
+  const loaded = await loadProposal(result.data, client.id)
+  if (!loaded.success) {
+    return NextResponse.json({ success: false, error: loaded.error }, { status: loaded.status, headers })
+  }
+  const { proposal, brand } = loaded
+
+  try {
+    const pdf = await renderProposalPdf(proposal, brand)
+    const fileName = `${slugify(brand.companyName)}-proposal-${slugify(proposal.contact.name)}.pdf`
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        ...headers,
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    log.error("Proposal PDF failed", { error })
+    return NextResponse.json(
+      { success: false, error: "Failed to create proposal. Please try again." },
+      { status: 500, headers },
+    )
+  }
+})
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+}
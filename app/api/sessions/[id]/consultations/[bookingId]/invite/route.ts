@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { checkOrigin, preflightResponse } from "@/lib/api-clients"
+import { createBookingInvite, getBooking } from "@/lib/consultations"
+import { instrumentRoute } from "@/lib/request-context"
+import { getSession, getSessionBrand } from "@/lib/sessions"
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, "GET, OPTIONS")
+}
+
+type Params = { id: string; bookingId: string }
+
+// The calendar invite for a booking. Opened as a plain link, so like share
+// links it needs no client; the session and booking IDs are the access check.
+export const GET = instrumentRoute<Params>("/api/sessions/[id]/consultations/[bookingId]/invite", async (request, { params }) => {
+  const { allowed, headers } = await checkOrigin(request, "GET, OPTIONS")
+  if (!allowed) {
+    return NextResponse.json({ success: false, error: "Origin not allowed" }, { status: 403, headers })
+  }
+
+  const booking = await getBooking(params.bookingId)
+  const session = booking && booking.sessionId === params.id ? await getSession(params.id) : null
+  if (!booking || !session) {
+    return NextResponse.json({ success: false, error: "Booking not found" }, { status: 404, headers })
+  }
+
+  const invite = await createBookingInvite(booking, session, await getSessionBrand(session))
+
+  return new NextResponse(invite, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="consultation-${booking.id}.ics"`,
+      "Cache-Control": "no-store",
+    },
+  })
+})
@@ -0,0 +1,131 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { recordError } from "@/lib/activity"
+import { authorizeClient, clientErrorResponse, preflightResponse } from "@/lib/api-clients"
+import { bookConsultation, invitePath, listOpenSlots } from "@/lib/consultations"
+import { bookingRequestSchema, slotQuerySchema } from "@/lib/consultations/schema"
+import { checkRateLimit, getClientIp, rateLimitHeaders } from "@/lib/rate-limit"
+import { instrumentRoute } from "@/lib/request-context"
+import { getSession, getSessionBrand } from "@/lib/sessions"
+
+const METHODS = "GET, POST, OPTIONS"
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, METHODS)
+}
+
+// Open consultation slots at the showroom the session's designs were written for
+export const GET = instrumentRoute<{ id: string }>("/api/sessions/[id]/consultations", async (request, { params }) => {
+  const clientCheck = await authorizeClient(request, "book", METHODS)
+  if (!clientCheck.success) return clientErrorResponse(clientCheck)
+  const { client, headers } = clientCheck
+
+  const query = slotQuerySchema.safeParse({
+    type: request.nextUrl.searchParams.get("type") ?? undefined,
+    from: request.nextUrl.searchParams.get("from") ?? undefined,
+    days: request.nextUrl.searchParams.get("days") ?? undefined,
+  })
+  if (!query.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid slot query",
+        details: query.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+      },
+      { status: 400, headers },
+    )
+  }
+
+  // Bookings are made for the session's lead, so only the client that created
+  // the session can see or take its slots; to anyone else it doesn't exist
+  const session = await getSession(params.id)
+  if (!session || session.clientId !== client.id) {
+    return NextResponse.json({ success: false, error: "Session not found" }, { status: 404, headers })
+  }
+
+  const brand = await getSessionBrand(session)
+  const { type, days } = query.data
+  const { from, slots } = await listOpenSlots(brand, type, query.data.from, days)
+
+  return NextResponse.json(
+    {
+      success: true,
+      type,
+      from,
+      days,
+      timeZone: brand.timeZone,
+      durationMinutes: brand.consultations.durationMinutes[type],
+      location: type === "showroom" ? brand.consultations.showroomAddress : null,
+      slots,
+    },
+    { headers: { ...headers, "Cache-Control": "no-store" } },
+  )
+})
+
+// Books a consultation for the session's lead and the design they chose
+export const POST = instrumentRoute<{ id: string }>("/api/sessions/[id]/consultations", async (request, { params, requestId, log }) => {
+  const clientCheck = await authorizeClient(request, "book", METHODS)
+  if (!clientCheck.success) return clientErrorResponse(clientCheck)
+  const { client, headers } = clientCheck
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400, headers })
+  }
+
+  const result = bookingRequestSchema.safeParse(body)
+  if (!result.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid booking request",
+        details: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+      },
+      { status: 400, headers },
+    )
+  }
+
+  const session = await getSession(params.id)
+  if (!session || session.clientId !== client.id) {
+    return NextResponse.json({ success: false, error: "Session not found" }, { status: 404, headers })
+  }
+
+  const rateLimitResult = await checkRateLimit("book", { ip: getClientIp(request), client })
+  Object.assign(headers, rateLimitHeaders(rateLimitResult))
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { success: false, error: "Rate limit exceeded. Please try again later." },
+      { status: 429, headers },
+    )
+  }
+
+  try {
+    const brand = await getSessionBrand(session)
+    const booked = await bookConsultation(session, brand, result.data)
+    if (!booked.success) {
+      return NextResponse.json({ success: false, error: booked.error }, { status: booked.status, headers })
+    }
+
+    const { booking } = booked
+    log.info("Consultation booked", { bookingId: booking.id, leadId: booking.leadId, type: booking.type })
+
+    return NextResponse.json(
+      {
+        success: true,
+        booking,
+        timeZone: brand.timeZone,
+        location: booking.address ?? brand.consultations.showroomAddress,
+        inviteUrl: `${process.env.PUBLIC_BASE_URL || request.nextUrl.origin}${invitePath(booking)}`,
+      },
+      { status: 201, headers },
+    )
+  } catch (error) {
+    log.error("Consultation booking failed", { sessionId: session.id, error })
+    await recordError("consultations", error, { requestId, sessionId: session.id })
+    return NextResponse.json(
+      { success: false, error: "Failed to book the consultation. Please try again." },
+      { status: 500, headers },
+    )
+  }
+})
@@ -0,0 +1,97 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { recordError } from "@/lib/activity"
+import { getAIProvider } from "@/lib/ai"
+import { instrumentProvider } from "@/lib/ai/instrument"
+import { authorizeClient, clientErrorResponse, preflightResponse } from "@/lib/api-clients"
+import { checkRateLimit, getClientIp, rateLimitHeaders } from "@/lib/rate-limit"
+import { instrumentRoute } from "@/lib/request-context"
+import { getSession, refineDesign } from "@/lib/sessions"
+import { refineRequestSchema } from "@/lib/sessions/schema"
+import { getBudgetStatus, meterProvider } from "@/lib/spend"
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request)
+}
+
+// Renders a new variation of a saved design with a natural-language change,
+// reusing the session's photo and analysis
+export const POST = instrumentRoute<{ id: string }>("/api/sessions/[id]/refine", async (request, { params, requestId, log }) => {
+  const clientCheck = await authorizeClient(request, "refine")
+  if (!clientCheck.success) return clientErrorResponse(clientCheck)
+  const { client, headers } = clientCheck
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400, headers })
+  }
+
+  const result = refineRequestSchema.safeParse(body)
+  if (!result.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid refinement request",
+        details: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+      },
+      { status: 400, headers },
+    )
+  }
+
+  // Each refinement is a paid render, so only the client that generated the
+  // session may ask for one; to anyone else the session doesn't exist
+  const session = await getSession(params.id)
+  if (!session || session.clientId !== client.id) {
+    return NextResponse.json({ success: false, error: "Session not found" }, { status: 404, headers })
+  }
+
+  // Counted once the request is known to be valid
+  const rateLimitResult = await checkRateLimit("refine", { ip: getClientIp(request), client })
+  Object.assign(headers, rateLimitHeaders(rateLimitResult))
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { success: false, error: "Rate limit exceeded. Please try again later." },
+      { status: 429, headers },
+    )
+  }
+
+  const provider = meterProvider(instrumentProvider(getAIProvider(), log), { requestId, leadId: session.leadId })
+  if (!provider.isConfigured()) {
+    return NextResponse.json({ success: false, error: "AI service temporarily unavailable" }, { status: 500, headers })
+  }
+
+  // Refinements follow the same spend caps as generation
+  const budget = await getBudgetStatus()
+  if (budget.mode === "blocked") {
+    return NextResponse.json(
+      { success: false, error: "Design refinement is paused right now. Please try again later." },
+      { status: 503, headers: { ...headers, "Retry-After": String(budget.retryAfterSeconds) } },
+    )
+  }
+
+  try {
+    log.info("Refining design", { sessionId: session.id, designId: result.data.designId })
+    const refined = await refineDesign(
+      session,
+      result.data.designId,
+      result.data.change,
+      provider,
+      process.env.PUBLIC_BASE_URL || request.nextUrl.origin,
+      budget.mode === "economy",
+    )
+
+    if (!refined.success) {
+      return NextResponse.json({ success: false, error: refined.error }, { status: refined.status, headers })
+    }
+
+    return NextResponse.json({ success: true, sessionId: session.id, design: refined.design }, { headers })
+  } catch (error) {
+    log.error("Design refinement failed", { sessionId: session.id, error })
+    await recordError("refine", error, { requestId, sessionId: session.id })
+    return NextResponse.json(
+      { success: false, error: "Failed to refine design. Please try again." },
+      { status: 500, headers },
+    )
+  }
+})
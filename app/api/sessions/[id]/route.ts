@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorizeClient, clientErrorResponse, preflightResponse } from "@/lib/api-clients"
+import { instrumentRoute } from "@/lib/request-context"
+import { getSession, sharePath } from "@/lib/sessions"
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, "GET, OPTIONS")
+}
+
+// Owner view of a design session. The session ID is only handed to the
+// customer who created it; share links use a separate token.
+export const GET = instrumentRoute<{ id: string }>("/api/sessions/[id]", async (request, { params }) => {
+  const clientCheck = await authorizeClient(request, null, "GET, OPTIONS")
+  if (!clientCheck.success) return clientErrorResponse(clientCheck)
+  const { client, headers } = clientCheck
+
+  // Holds the lead's preferences and analysis, so only the client that
+  // created the session can read it; to anyone else it doesn't exist
+  const session = await getSession(params.id)
+  if (!session || session.clientId !== client.id) {
+    return NextResponse.json({ success: false, error: "Session not found" }, { status: 404, headers })
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      sessionId: session.id,
+      leadId: session.leadId,
+      shareUrl: `${process.env.PUBLIC_BASE_URL || request.nextUrl.origin}${sharePath(session)}`,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      roomType: session.roomType,
+      preferences: session.preferences,
+      spaceAnalysis: session.spaceAnalysis,
+      renderMode: session.renderMode,
+      designs: session.designs,
+    },
+    { headers: { ...headers, "Cache-Control": "no-store" } },
+  )
+})
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { checkOrigin, preflightResponse } from "@/lib/api-clients"
+import { instrumentRoute } from "@/lib/request-context"
+import { getSessionByShareToken, toSharedSession } from "@/lib/sessions"
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, "GET, OPTIONS")
+}
+
+// Read-only view of a design session for share links
+export const GET = instrumentRoute<{ token: string }>("/api/shared/[token]", async (request, { params }) => {
+  const { allowed, headers } = await checkOrigin(request, "GET, OPTIONS")
+  if (!allowed) {
+    return NextResponse.json({ success: false, error: "Origin not allowed" }, { status: 403, headers })
+  }
+
+  const session = await getSessionByShareToken(params.token)
+  if (!session) {
+    return NextResponse.json({ success: false, error: "Shared design not found" }, { status: 404, headers })
+  }
+
+  return NextResponse.json(
+    { success: true, ...toSharedSession(session) },
+    { headers: { ...headers, "Cache-Control": "no-store" } },
+  )
+})
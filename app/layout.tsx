@@ -2,12 +2,16 @@ import type React from "react"
 import type { Metadata } from "next"
 import { Inter } from 'next/font/google'
 import "./globals.css"
+import { getDefaultBrandProfile } from "@/lib/brands"
 
 const inter = Inter({ subsets: ["latin"] })
 
-export const metadata: Metadata = {
-  title: "Urban Woodspace AI Kitchen Designer - Backend API",
-  description: "AI-powered kitchen design API for Urban Woodspace Calgary",
+export async function generateMetadata(): Promise<Metadata> {
+  const brand = await getDefaultBrandProfile()
+  return {
+    title: `${brand.companyName} ${brand.productName} - Backend API`,
+    description: `AI-powered kitchen design API for ${brand.companyName} ${brand.city}`,
+  }
 }
 
 export default function RootLayout({
@@ -1,20 +1,71 @@
-export default function Home() {
+import { getDefaultBrandProfile } from "@/lib/brands"
+
+export default async function Home() {
+  const brand = await getDefaultBrandProfile()
+
   return (
     <div style={{ padding: "2rem", fontFamily: "system-ui" }}>
-      <h1>Urban Woodspace AI Backend</h1>
-      <p>AI Kitchen Designer API is running successfully!</p>
+      <h1>{brand.companyName} AI Backend</h1>
+      <p>{brand.productName} API is running successfully!</p>
       <div style={{ marginTop: "2rem", padding: "1rem", backgroundColor: "#f5f5f5", borderRadius: "8px" }}>
         <h2>API Endpoints:</h2>
         <ul>
           <li>
             <code>POST /api/ai-design-visual</code> - AI Kitchen Design Generator
           </li>
+          <li>
+            <code>GET /api/ai-design-visual/jobs/:id</code> - Design generation job status
+          </li>
+          <li>
+            <code>GET /api/designs/:id/image</code> - Stored design renders
+          </li>
+          <li>
+            <code>POST /api/proposals</code> - Branded PDF design proposal
+          </li>
+          <li>
+            <code>GET /api/sessions/:id</code> - Saved design session
+          </li>
+          <li>
+            <code>POST /api/sessions/:id/refine</code> - Refine a design with a requested change
+          </li>
+          <li>
+            <code>GET|POST /api/sessions/:id/consultations</code> - Open consultation slots and booking
+          </li>
+          <li>
+            <code>GET /api/sessions/:id/consultations/:bookingId/invite</code> - Consultation calendar invite (.ics)
+          </li>
+          <li>
+            <code>GET /api/shared/:token</code> - Read-only shared design session
+          </li>
+          <li>
+            <code>GET|PUT|DELETE /api/admin/catalog/:section/:key</code> - Design catalog admin (token required)
+          </li>
+          <li>
+            <code>GET /api/admin/spend</code> - AI spend and budget caps (token required)
+          </li>
+          <li>
+            <code>GET /api/admin/leads/export</code> - Leads as CSV (token required)
+          </li>
+          <li>
+            <code>GET /api/cron/crm-webhooks</code> - Retry queued CRM lead deliveries (CRON_SECRET required)
+          </li>
+          <li>
+            <code>GET /api/metrics</code> - Prometheus metrics (METRICS_TOKEN or admin token required)
+          </li>
+          <li>
+            <code>/admin</code> - Admin dashboard for leads, generations and errors (token required)
+          </li>
         </ul>
         <p>
           <strong>Status:</strong> ✅ Active
         </p>
         <p>
-          <strong>CORS:</strong> Configured for urbanwoodspace.com
+          <strong>CORS:</strong> Origins and API keys (<code>X-Api-Key</code>) per client in config/api-clients.json
+        </p>
+        <p>
+          <strong>Authentication:</strong> Clients without an API key are matched by <code>Origin</code> alone, which any
+          non-browser caller can send, so treat them as public. Server-to-server calls send no <code>Origin</code> and
+          need a key.
         </p>
       </div>
     </div>
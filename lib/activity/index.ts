@@ -0,0 +1,101 @@
+import { type ActivityEvent, type ActivityInput, type ActivityStore, createFileActivityStore } from "@/lib/activity/store"
+import { logger } from "@/lib/logger"
+import { analysesTotal, errorsTotal, generationsTotal, imagesTotal } from "@/lib/metrics"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+export type { ActivityEvent, ActivityStore } from "@/lib/activity/store"
+
+// What the admin dashboard reports on: analyses, generations and failures
+
+function getActivityStore(): ActivityStore {
+  return singleton("activityStore", () => createFileActivityStore())
+}
+
+export function setActivityStore(activityStore: ActivityStore) {
+  replaceSingleton("activityStore", activityStore)
+}
+
+// Every event is also counted for /api/metrics
+function countActivity(input: ActivityInput) {
+  if (input.type === "analysis") {
+    analysesTotal.inc({ room_type: input.roomType, cached: String(input.cached) })
+  } else if (input.type === "generation") {
+    generationsTotal.inc({ room_type: input.roomType })
+    imagesTotal.inc({ outcome: "generated" }, input.imagesGenerated - input.imagesFromCache)
+    imagesTotal.inc({ outcome: "cached" }, input.imagesFromCache)
+    imagesTotal.inc({ outcome: "failed" }, input.imagesFailed)
+  } else {
+    errorsTotal.inc({ source: input.source })
+  }
+}
+
+export async function recordActivity(input: ActivityInput): Promise<void> {
+  countActivity(input)
+  try {
+    await getActivityStore().add(input)
+  } catch (error) {
+    // Reporting must never fail the customer's request
+    logger.error("Could not record activity", { error })
+  }
+}
+
+export function recordError(
+  source: string,
+  error: unknown,
+  ids: { requestId?: string | null; sessionId?: string | null } = {},
+): Promise<void> {
+  return recordActivity({
+    type: "error",
+    source,
+    message: error instanceof Error ? error.message : String(error),
+    requestId: ids.requestId ?? null,
+    sessionId: ids.sessionId ?? null,
+  })
+}
+
+export type DailyActivity = {
+  day: string
+  analyses: number
+  generations: number
+  imagesGenerated: number
+  imagesFailed: number
+  errors: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// One row per UTC day for the last `days` days, newest first, including
+// days with nothing recorded
+export async function summarizeDailyActivity(days: number, now = new Date()): Promise<DailyActivity[]> {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const rows = new Map<string, DailyActivity>()
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(today - offset * DAY).toISOString().slice(0, 10)
+    rows.set(day, { day, analyses: 0, generations: 0, imagesGenerated: 0, imagesFailed: 0, errors: 0 })
+  }
+
+  const events = await getActivityStore().list(new Date(today - (days - 1) * DAY))
+  for (const event of events) {
+    const row = rows.get(event.timestamp.slice(0, 10))
+    if (!row) continue
+    if (event.type === "analysis") {
+      row.analyses++
+    } else if (event.type === "generation") {
+      row.generations++
+      row.imagesGenerated += event.imagesGenerated
+      row.imagesFailed += event.imagesFailed
+    } else {
+      row.errors++
+    }
+  }
+
+  return Array.from(rows.values())
+}
+
+export async function listRecentErrors(limit: number, days = 30): Promise<Extract<ActivityEvent, { type: "error" }>[]> {
+  const events = await getActivityStore().list(new Date(Date.now() - days * DAY))
+  return events
+    .filter((event): event is Extract<ActivityEvent, { type: "error" }> => event.type === "error")
+    .reverse()
+    .slice(0, limit)
+}
@@ -0,0 +1,42 @@
+import { randomUUID } from "crypto"
+import type { RoomType } from "@/lib/rooms"
+import { createDailyLog } from "@/lib/storage/daily-log"
+import { dataPath } from "@/lib/storage/json-file"
+
+export type ActivityInput =
+  | { type: "analysis"; requestId: string; roomType: RoomType; photos: number; cached: boolean }
+  | {
+      type: "generation"
+      sessionId: string | null
+      roomType: RoomType
+      imagesGenerated: number
+      imagesFailed: number
+      imagesFromCache: number
+    }
+  | { type: "error"; source: string; message: string; requestId: string | null; sessionId: string | null }
+
+export type ActivityEvent = ActivityInput & { id: string; timestamp: string }
+
+export interface ActivityStore {
+  add(input: ActivityInput): Promise<void>
+  // Events at or after `since`, oldest first
+  list(since: Date): Promise<ActivityEvent[]>
+}
+
+// One file per day, deleted after ACTIVITY_RETENTION_DAYS (default 90)
+export function createFileActivityStore(directory = dataPath("activity")): ActivityStore {
+  const log = createDailyLog<ActivityEvent>(directory, {
+    retentionDays: Number(process.env.ACTIVITY_RETENTION_DAYS) || 90,
+    legacyFile: dataPath("activity.json"),
+  })
+
+  return {
+    add(input) {
+      return log.append({ ...input, id: randomUUID(), timestamp: new Date().toISOString() })
+    },
+
+    list(since) {
+      return log.list(since)
+    },
+  }
+}
@@ -0,0 +1,111 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { type JsonFile, createJsonFile, dataPath } from "@/lib/storage/json-file"
+import { singleton } from "@/lib/storage/singleton"
+
+export const ADMIN_SESSION_COOKIE = "admin_session"
+export const ADMIN_SESSION_MAX_AGE_SECONDS = 12 * 60 * 60
+
+// Compare digests so the comparison takes the same time for any length
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(a), digest(b))
+}
+
+export function isAdminToken(token: string): boolean {
+  const expected = process.env.ADMIN_API_TOKEN
+  if (!expected) return false
+  return safeEqual(token, expected)
+}
+
+// Signed-in dashboards. The cookie holds a random ID and only its hash is
+// kept here, so the file can't be replayed as a cookie. Each session also
+// records which admin token it was issued under and stops working as soon as
+// the token is rotated.
+type AdminSession = {
+  idHash: string
+  tokenFingerprint: string
+  createdAt: string
+  expiresAt: string
+}
+
+function getAdminSessionFile(): JsonFile<AdminSession[]> {
+  return singleton("adminSessionFile", () => createJsonFile<AdminSession[]>(dataPath("admin-sessions.json"), () => []))
+}
+
+function hashSessionId(id: string): string {
+  return createHash("sha256").update(id).digest("hex")
+}
+
+function tokenFingerprint(): string | null {
+  const token = process.env.ADMIN_API_TOKEN
+  return token ? createHmac("sha256", token).update("admin-session").digest("hex") : null
+}
+
+// Returns the cookie value for a new session, or null when no admin token is set
+export async function createAdminSession(now = new Date()): Promise<string | null> {
+  const fingerprint = tokenFingerprint()
+  if (!fingerprint) return null
+
+  const id = randomBytes(32).toString("base64url")
+  await getAdminSessionFile().update((sessions) => {
+    const live = sessions.filter((session) => new Date(session.expiresAt) > now)
+    live.push({
+      idHash: hashSessionId(id),
+      tokenFingerprint: fingerprint,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ADMIN_SESSION_MAX_AGE_SECONDS * 1000).toISOString(),
+    })
+    sessions.splice(0, sessions.length, ...live)
+  })
+  return id
+}
+
+// Expiry is checked here rather than trusted to the browser's cookie max-age
+export async function isAdminSession(value: string | undefined, now = new Date()): Promise<boolean> {
+  const fingerprint = tokenFingerprint()
+  if (!fingerprint || !value) return false
+
+  const idHash = hashSessionId(value)
+  const sessions = await getAdminSessionFile().read()
+  const session = sessions.find((candidate) => candidate.idHash === idHash)
+  return Boolean(session && new Date(session.expiresAt) > now && safeEqual(session.tokenFingerprint, fingerprint))
+}
+
+export async function revokeAdminSession(value: string | undefined): Promise<void> {
+  if (!value) return
+  const idHash = hashSessionId(value)
+  await getAdminSessionFile().update((sessions) => {
+    const index = sessions.findIndex((session) => session.idHash === idHash)
+    if (index >= 0) sessions.splice(index, 1)
+  })
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization") || ""
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length) : null
+}
+
+// For endpoints with their own token, such as the metrics scrape
+export function hasBearerToken(request: Request, expected: string | undefined): boolean {
+  const token = bearerToken(request)
+  if (!expected || !token) return false
+  return safeEqual(token, expected)
+}
+
+function cookieValue(request: Request, name: string): string | undefined {
+  for (const part of (request.headers.get("cookie") || "").split(";")) {
+    const [key, ...rest] = part.trim().split("=")
+    if (key === name) return rest.join("=")
+  }
+  return undefined
+}
+
+// Admin endpoints expect `Authorization: Bearer <ADMIN_API_TOKEN>`, or the
+// dashboard's session cookie so exports can be downloaded from the browser
+export async function isAdminRequest(request: Request): Promise<boolean> {
+  const token = bearerToken(request)
+  if (token !== null) {
+    return isAdminToken(token)
+  }
+  return isAdminSession(cookieValue(request, ADMIN_SESSION_COOKIE))
+}
@@ -0,0 +1,61 @@
+export type AIProviderName = "openai" | "mock"
+
+export type AIConfig = {
+  provider: AIProviderName
+  vision: {
+    model: string
+    maxTokens: number
+    temperature: number
+  }
+  // Cheap screening pass that runs before any analysis or render
+  photoCheck: {
+    model: string
+    maxTokens: number
+  }
+  imageGeneration: {
+    model: string
+    size: "1024x1024" | "1792x1024" | "1024x1792"
+    quality: "standard" | "hd"
+  }
+  imageEdit: {
+    model: string
+    size: "1024x1024" | "1536x1024" | "1024x1536" | "auto"
+    quality: "low" | "medium" | "high" | "auto"
+  }
+}
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : Number(value)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+function oneOf<T extends string>(value: string | undefined, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback
+}
+
+// Models and parameters come from the environment so they can be changed
+// without a deploy. AI_PROVIDER=mock runs everything offline.
+export function loadAIConfig(env: NodeJS.ProcessEnv = process.env): AIConfig {
+  return {
+    provider: oneOf(env.AI_PROVIDER, ["openai", "mock"] as const, "openai"),
+    vision: {
+      model: env.AI_VISION_MODEL || "gpt-4o",
+      maxTokens: numberFromEnv(env.AI_VISION_MAX_TOKENS, 2500),
+      temperature: numberFromEnv(env.AI_VISION_TEMPERATURE, 0.2),
+    },
+    photoCheck: {
+      model: env.AI_PHOTO_CHECK_MODEL || "gpt-4o-mini",
+      maxTokens: numberFromEnv(env.AI_PHOTO_CHECK_MAX_TOKENS, 600),
+    },
+    imageGeneration: {
+      model: env.AI_IMAGE_MODEL || "dall-e-3",
+      size: oneOf(env.AI_IMAGE_SIZE, ["1024x1024", "1792x1024", "1024x1792"] as const, "1024x1024"),
+      quality: oneOf(env.AI_IMAGE_QUALITY, ["standard", "hd"] as const, "hd"),
+    },
+    imageEdit: {
+      model: env.AI_IMAGE_EDIT_MODEL || "gpt-image-1",
+      size: oneOf(env.AI_IMAGE_EDIT_SIZE, ["1024x1024", "1536x1024", "1024x1536", "auto"] as const, "1024x1024"),
+      quality: oneOf(env.AI_IMAGE_EDIT_QUALITY, ["low", "medium", "high", "auto"] as const, "high"),
+    },
+  }
+}
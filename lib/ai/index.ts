@@ -0,0 +1,16 @@
+import { loadAIConfig } from "@/lib/ai/config"
+import { createMockProvider } from "@/lib/ai/mock-provider"
+import { createOpenAIProvider } from "@/lib/ai/openai-provider"
+import type { AIProvider } from "@/lib/ai/types"
+
+export type { AIProvider } from "@/lib/ai/types"
+
+let provider: AIProvider | null = null
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    const config = loadAIConfig()
+    provider = config.provider === "mock" ? createMockProvider() : createOpenAIProvider(config)
+  }
+  return provider
+}
@@ -0,0 +1,46 @@
+import type { AIProvider } from "@/lib/ai/types"
+import type { Logger } from "@/lib/logger"
+import { providerDuration } from "@/lib/metrics"
+
+// Wraps a provider so every call is timed, logged and counted
+export function instrumentProvider(provider: AIProvider, log: Logger): AIProvider {
+  async function timed<T extends { model: string }>(operation: string, call: () => Promise<T>): Promise<T> {
+    const started = Date.now()
+    try {
+      const result = await call()
+      const durationMs = Date.now() - started
+      providerDuration.observe({ operation, outcome: "success" }, durationMs / 1000)
+      log.info("Provider call completed", { provider: provider.name, operation, model: result.model, durationMs })
+      return result
+    } catch (error) {
+      const durationMs = Date.now() - started
+      providerDuration.observe({ operation, outcome: "error" }, durationMs / 1000)
+      log.warn("Provider call failed", { provider: provider.name, operation, durationMs, error })
+      throw error
+    }
+  }
+
+  return {
+    name: provider.name,
+
+    isConfigured() {
+      return provider.isConfigured()
+    },
+
+    analyzeImage(request) {
+      return timed("analyze", () => provider.analyzeImage(request))
+    },
+
+    screenImages(request) {
+      return timed("screen", () => provider.screenImages(request))
+    },
+
+    generateImage(request) {
+      return timed("generate-image", () => provider.generateImage(request))
+    },
+
+    editImage(request) {
+      return timed("edit-image", () => provider.editImage(request))
+    },
+  }
+}
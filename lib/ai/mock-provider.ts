@@ -0,0 +1,105 @@
+import { createHash } from "crypto"
+import type { AIProvider } from "@/lib/ai/types"
+import { ROOM_PROFILES, type RoomType } from "@/lib/rooms"
+
+// Canned analysis that satisfies the space analysis schema for the given room
+function mockAnalysis(roomType: RoomType) {
+  const room = ROOM_PROFILES[roomType]
+  return {
+    usableRoom: true,
+    layoutType: room.layoutTypes[0],
+    layoutConfidence: 0.9,
+    roomDimensions: { lengthFt: 12, widthFt: 10, confidence: 0.8 },
+    ceilingHeight: { heightFt: 9, confidence: 0.7 },
+    windows: [{ wall: "back wall", description: "double window", naturalLight: "high", photos: [1] }],
+    doors: [{ wall: "right wall", type: "open-doorway", description: "wide opening to the hallway", photos: [1, 2] }],
+    existingFeatures: [
+      { text: "Oak cabinets in fair condition", photos: [1] },
+      { text: "Laminate countertops", photos: [1] },
+      { text: "Vinyl plank flooring", photos: [1, 2] },
+    ],
+    challenges: [
+      { text: "Limited upper storage", photos: [1] },
+      { text: "Dated finishes", photos: [1] },
+      { text: "Single ceiling light", photos: [1] },
+    ],
+    opportunities: [
+      { text: "Extend uppers to the ceiling", photos: [1] },
+      { text: "Add a tall storage wall on the left", photos: [2] },
+      { text: "Under-cabinet lighting", photos: [1] },
+    ],
+    lightingSituation: "Strong natural light from the back window, one ceiling fixture",
+    architecturalElements: [
+      { text: "Bulkhead above the upper cabinets", photos: [1] },
+      { text: "Window on the back wall", photos: [1] },
+    ],
+    recommendedStyles: [
+      { text: "Transitional", photos: [] },
+      { text: "Contemporary", photos: [] },
+      { text: "Scandinavian", photos: [] },
+    ],
+    spaceOptimization: [
+      { text: "Keep the main walkway clear", photos: [1] },
+      { text: "Open the corner with pull-out storage", photos: [1] },
+    ],
+    overallConfidence: 0.8,
+    narrative:
+      `This is a mock analysis. The ${room.noun} is roughly 12' x 10' with a bright window on the back wall ` +
+      "and a wide opening to the hallway.",
+  }
+}
+
+function placeholderImage(label: string, prompt: string): string {
+  // The colour is derived from the prompt so the same request gives the same image
+  const hue = parseInt(createHash("sha256").update(prompt).digest("hex").slice(0, 4), 16) % 360
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024"><rect width="100%" height="100%" fill="hsl(${hue},35%,75%)"/><text x="50%" y="50%" font-family="sans-serif" font-size="48" text-anchor="middle">${label}</text></svg>`
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`
+}
+
+// Rough token counts so spend metering can be exercised offline
+function mockUsage(text: string, imageCount: number) {
+  return { inputTokens: 800 + 765 * imageCount, outputTokens: Math.ceil(text.length / 4) }
+}
+
+// Deterministic offline provider for local development and CI
+export function createMockProvider(): AIProvider {
+  return {
+    name: "mock",
+
+    isConfigured() {
+      return true
+    },
+
+    async analyzeImage({ images, roomType }) {
+      const text = JSON.stringify(mockAnalysis(roomType))
+      return { text, model: "mock-vision", usage: mockUsage(text, images.length) }
+    },
+
+    // Every photo passes unless AI_MOCK_PHOTO_VERDICT names another verdict,
+    // so rejections can be exercised offline
+    async screenImages({ images }) {
+      const verdict = process.env.AI_MOCK_PHOTO_VERDICT || "usable"
+      const photos = images.map((_, index) => ({ photo: index + 1, verdict, reason: "Mock screening result" }))
+      const text = JSON.stringify({ photos })
+      return { text, model: "mock-vision", usage: mockUsage(text, images.length) }
+    },
+
+    async generateImage({ prompt, economy }) {
+      return {
+        url: placeholderImage("Mock design", prompt),
+        model: "mock-image",
+        size: "1024x1024",
+        quality: economy ? "standard" : "hd",
+      }
+    },
+
+    async editImage({ prompt, economy }) {
+      return {
+        url: placeholderImage("Mock edit", prompt),
+        model: "mock-image-edit",
+        size: "1024x1024",
+        quality: economy ? "low" : "high",
+      }
+    },
+  }
+}
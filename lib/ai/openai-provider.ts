@@ -0,0 +1,99 @@
+import OpenAI, { toFile } from "openai"
+import type { AIConfig } from "@/lib/ai/config"
+import type { AIProvider, VisionAnalysisRequest, VisionAnalysisResult } from "@/lib/ai/types"
+
+type VisionOptions = {
+  model: string
+  maxTokens: number
+  temperature: number
+  detail: "low" | "high" | "auto"
+}
+
+export function createOpenAIProvider(config: AIConfig, apiKey = process.env.OPENAI_API_KEY): AIProvider {
+  const openai = new OpenAI({ apiKey })
+
+  async function vision(
+    { prompt, images }: VisionAnalysisRequest,
+    options: VisionOptions,
+  ): Promise<VisionAnalysisResult> {
+    const content: OpenAI.Chat.ChatCompletionContentPart[] = [{ type: "text", text: prompt }]
+    for (const image of images) {
+      content.push({ type: "text", text: image.caption })
+      content.push({ type: "image_url", image_url: { url: image.url, detail: options.detail } })
+    }
+
+    const response = await openai.chat.completions.create({
+      model: options.model,
+      messages: [{ role: "user", content }],
+      response_format: { type: "json_object" },
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+    })
+
+    return {
+      text: response.choices[0]?.message?.content || "",
+      model: response.model,
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+        : null,
+    }
+  }
+
+  return {
+    name: "openai",
+
+    isConfigured() {
+      return Boolean(apiKey)
+    },
+
+    analyzeImage(request) {
+      return vision(request, { ...config.vision, detail: "auto" })
+    },
+
+    screenImages(request) {
+      return vision(request, { ...config.photoCheck, temperature: 0, detail: "low" })
+    },
+
+    async generateImage({ prompt, economy }) {
+      const quality = economy ? "standard" : config.imageGeneration.quality
+      const response = await openai.images.generate({
+        model: config.imageGeneration.model,
+        prompt,
+        size: config.imageGeneration.size,
+        quality,
+        n: 1,
+      })
+
+      const url = response?.data?.[0]?.url
+      if (!url) {
+        throw new Error("No image URL returned from OpenAI")
+      }
+
+      return { url, model: config.imageGeneration.model, size: config.imageGeneration.size, quality }
+    },
+
+    async editImage({ prompt, image, mimeType, economy }) {
+      const quality = economy ? "low" : config.imageEdit.quality
+      const response = await openai.images.edit({
+        model: config.imageEdit.model,
+        image: await toFile(image, "room", { type: mimeType }),
+        prompt,
+        size: config.imageEdit.size,
+        quality,
+        n: 1,
+      })
+
+      const base64Image = response?.data?.[0]?.b64_json
+      if (!base64Image) {
+        throw new Error("No image data returned from OpenAI")
+      }
+
+      return {
+        url: `data:image/png;base64,${base64Image}`,
+        model: config.imageEdit.model,
+        size: config.imageEdit.size,
+        quality,
+      }
+    },
+  }
+}
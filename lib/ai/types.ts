@@ -0,0 +1,64 @@
+// Provider-neutral interface for the AI calls the designer makes, so models
+// can be swapped and the whole flow can run offline against the mock.
+
+import type { RoomType } from "@/lib/rooms"
+
+export type VisionImage = {
+  // A fetchable URL or a `data:` URL
+  url: string
+  // Shown to the model just before the image, e.g. "Photo 2 (north wall)"
+  caption: string
+}
+
+export type VisionAnalysisRequest = {
+  prompt: string
+  // Several photos of the same space are analyzed together
+  images: VisionImage[]
+  // The room the photos show; the prompt already says so, but the mock
+  // provider needs it to fit its canned analysis to the room
+  roomType: RoomType
+}
+
+export type TokenUsage = {
+  inputTokens: number
+  outputTokens: number
+}
+
+export type VisionAnalysisResult = {
+  text: string
+  model: string
+  // Null when the provider doesn't report usage
+  usage: TokenUsage | null
+}
+
+export type ImageGenerationRequest = {
+  prompt: string
+  // Cheaper quality settings, used once a spend cap is reached
+  economy?: boolean
+}
+
+export type ImageEditRequest = {
+  prompt: string
+  image: Buffer
+  mimeType: string
+  economy?: boolean
+}
+
+export type ImageResult = {
+  // A fetchable URL or a `data:` URL
+  url: string
+  model: string
+  // The settings actually used, which determine the price
+  size: string
+  quality: string
+}
+
+export interface AIProvider {
+  readonly name: string
+  isConfigured(): boolean
+  analyzeImage(request: VisionAnalysisRequest): Promise<VisionAnalysisResult>
+  // Same request shape as analyzeImage, on a cheaper model at low detail
+  screenImages(request: VisionAnalysisRequest): Promise<VisionAnalysisResult>
+  generateImage(request: ImageGenerationRequest): Promise<ImageResult>
+  editImage(request: ImageEditRequest): Promise<ImageResult>
+}
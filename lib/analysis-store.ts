@@ -0,0 +1,32 @@
+import { randomUUID } from "crypto"
+import type { SpaceAnalysis } from "@/lib/space-analysis"
+import { singleton } from "@/lib/storage/singleton"
+
+// Analyses are kept so `generate` can look them up by ID
+const ANALYSIS_TTL_MS = 24 * 60 * 60 * 1000
+
+type StoredAnalysis = {
+  spaceAnalysis: SpaceAnalysis
+  expiresAt: number
+}
+
+// Simple in-memory store (in production, use Redis or similar)
+const analyses = singleton("analyses", () => new Map<string, StoredAnalysis>())
+
+export function saveAnalysis(spaceAnalysis: SpaceAnalysis): string {
+  const analysisId = randomUUID()
+  analyses.set(analysisId, { spaceAnalysis, expiresAt: Date.now() + ANALYSIS_TTL_MS })
+  return analysisId
+}
+
+export function getAnalysis(analysisId: string): SpaceAnalysis | null {
+  const stored = analyses.get(analysisId)
+  if (!stored) return null
+
+  if (stored.expiresAt <= Date.now()) {
+    analyses.delete(analysisId)
+    return null
+  }
+
+  return stored.spaceAnalysis
+}
@@ -0,0 +1,128 @@
+import { createHash, timingSafeEqual } from "crypto"
+import { promises as fs } from "fs"
+import { NextResponse } from "next/server"
+import bundledRegistry from "@/config/api-clients.json"
+import { type ApiClient, type ClientAction, apiClientRegistrySchema } from "@/lib/api-clients/schema"
+import { corsHeaders } from "@/lib/cors"
+
+export type { ApiClient, ClientAction } from "@/lib/api-clients/schema"
+
+export const API_KEY_HEADER = "X-Api-Key"
+
+let cachedClients: ApiClient[] | null = null
+
+// API_CLIENTS_PATH points at a replacement registry; otherwise the bundled
+// config/api-clients.json is used. Disabled clients are dropped here.
+export async function loadApiClients(): Promise<ApiClient[]> {
+  if (cachedClients) return cachedClients
+
+  const source = process.env.API_CLIENTS_PATH
+    ? JSON.parse(await fs.readFile(process.env.API_CLIENTS_PATH, "utf8"))
+    : bundledRegistry
+
+  const result = apiClientRegistrySchema.safeParse(source)
+  if (!result.success) {
+    throw new Error(
+      `Invalid API client registry: ${result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join(", ")}`,
+    )
+  }
+
+  const production = process.env.NODE_ENV === "production"
+  cachedClients = result.data.clients.filter(
+    (client) => client.enabled && !(production && client.developmentOnly),
+  )
+  return cachedClients
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest()
+}
+
+function keyMatches(client: ApiClient, apiKey: string): boolean {
+  return client.apiKeySha256 !== null && timingSafeEqual(sha256(apiKey), Buffer.from(client.apiKeySha256, "hex"))
+}
+
+export type ClientCheck =
+  | { success: true; client: ApiClient; headers: Record<string, string> }
+  | { success: false; status: 401 | 403; error: string; headers: Record<string, string> }
+
+// Browsers leave Origin off same-origin GETs but mark them with
+// Sec-Fetch-Site, so those count as coming from this server's own origin.
+// Pages served from this host then need that origin listed like any other.
+function requestOrigin(request: Request): string | null {
+  const origin = request.headers.get("origin")
+  if (origin !== null) return origin
+  return request.headers.get("sec-fetch-site") === "same-origin" ? new URL(request.url).origin : null
+}
+
+// The one place requests are matched to a client. Browsers always send an
+// Origin on cross-site calls, so an unlisted origin is refused outright;
+// requests without one (server to server) must carry an API key.
+//
+// Origin only identifies browsers. Anything else can send whatever Origin it
+// likes, so a client without a key is effectively public: its actions and
+// quotas are open to any caller that names one of its origins.
+export async function authorizeClient(
+  request: Request,
+  action: ClientAction | null,
+  methods = "POST, OPTIONS",
+): Promise<ClientCheck> {
+  const clients = await loadApiClients()
+  const origin = requestOrigin(request)
+  const apiKey = request.headers.get(API_KEY_HEADER)
+
+  const originAllowed = origin !== null && clients.some((client) => client.allowedOrigins.includes(origin))
+  // CORS headers only ever name an origin that is on the list
+  const headers = corsHeaders(originAllowed ? origin : null, methods)
+  const deny = (status: 401 | 403, error: string): ClientCheck => ({ success: false, status, error, headers })
+
+  let client: ApiClient | undefined
+  if (apiKey) {
+    client = clients.find((candidate) => keyMatches(candidate, apiKey))
+    if (!client) return deny(401, "Invalid API key")
+    if (origin !== null && !client.allowedOrigins.includes(origin)) return deny(403, "Origin not allowed")
+  } else if (origin !== null) {
+    const matches = clients.filter((candidate) => candidate.allowedOrigins.includes(origin))
+    if (matches.length === 0) return deny(403, "Origin not allowed")
+    client = matches.find((candidate) => candidate.apiKeySha256 === null)
+    if (!client) return deny(401, "API key required")
+  } else {
+    return deny(401, `API key required; send it as ${API_KEY_HEADER}`)
+  }
+
+  const actionError = action && checkClientAction(client, action)
+  if (actionError) return deny(403, actionError)
+
+  return { success: true, client, headers }
+}
+
+// For routes that only learn the action from the request body
+export function checkClientAction(client: ApiClient, action: ClientAction): string | null {
+  return client.actions.includes(action) ? null : `This client is not enabled for ${action}`
+}
+
+// For public resources such as share links: no client needed, but a
+// browser calling from an unlisted origin is still refused
+export async function checkOrigin(
+  request: Request,
+  methods = "GET, OPTIONS",
+): Promise<{ allowed: boolean; headers: Record<string, string> }> {
+  const origin = request.headers.get("origin")
+  if (origin === null) {
+    return { allowed: true, headers: corsHeaders(null, methods) }
+  }
+  const clients = await loadApiClients()
+  const allowed = clients.some((client) => client.allowedOrigins.includes(origin))
+  return { allowed, headers: corsHeaders(allowed ? origin : null, methods) }
+}
+
+export function clientErrorResponse(check: Extract<ClientCheck, { success: false }>): NextResponse {
+  return NextResponse.json({ success: false, error: check.error }, { status: check.status, headers: check.headers })
+}
+
+// OPTIONS handler body. Preflights can't carry the API key, so any listed
+// origin passes; the real request is checked in full.
+export async function preflightResponse(request: Request, methods = "POST, OPTIONS"): Promise<NextResponse> {
+  const { allowed, headers } = await checkOrigin(request, methods)
+  return new NextResponse(null, { status: allowed ? 204 : 403, headers })
+}
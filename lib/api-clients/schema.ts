@@ -0,0 +1,73 @@
+import { z } from "zod"
+import { brandProfileIdSchema } from "@/lib/brands/schema"
+
+// What a client may call. Reading sessions and job status comes with any of them.
+export const CLIENT_ACTIONS = ["analyze", "generate", "refine", "proposal", "book"] as const
+
+export type ClientAction = (typeof CLIENT_ACTIONS)[number]
+
+const quotaRuleSchema = z.object({
+  // "client" counts every call the client makes, across all its visitors
+  scope: z.enum(["ip", "email", "client"]),
+  limit: z.number().int().positive(),
+  windowSeconds: z.number().int().positive(),
+})
+
+export type QuotaRule = z.infer<typeof quotaRuleSchema>
+
+// A bare origin such as "https://example.com", exactly as browsers send it
+const originSchema = z.string().refine(
+  (value) => {
+    try {
+      return new URL(value).origin === value
+    } catch {
+      return false
+    }
+  },
+  { message: "Must be an origin like https://example.com, without a path or trailing slash" },
+)
+
+const apiClientSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Client IDs must be lowercase words joined by dashes"),
+  name: z.string().min(1),
+  allowedOrigins: z.array(originSchema),
+  // Hex SHA-256 of the client's key (`printf %s "$KEY" | sha256sum`), sent as
+  // X-Api-Key. Null for first-party pages identified by origin alone, which
+  // is not authentication: non-browser callers can send any Origin and so use
+  // an origin-only client's actions and quotas. Server-to-server callers send
+  // no Origin at all and always need a key.
+  apiKeySha256: z
+    .string()
+    .regex(/^[a-f0-9]{64}$/, "Must be a lowercase hex SHA-256 digest")
+    .nullable()
+    .default(null),
+  actions: z.array(z.enum(CLIENT_ACTIONS)).min(1),
+  // Replace the default rate limits for this client's calls
+  quotas: z
+    .object({
+      analyze: z.array(quotaRuleSchema),
+      generate: z.array(quotaRuleSchema),
+      refine: z.array(quotaRuleSchema),
+      book: z.array(quotaRuleSchema),
+    })
+    .partial()
+    .default({}),
+  // Brand profiles the client may select with the `brand` field; the first
+  // is used when none is given. Empty means the registry default only.
+  brandProfiles: z.array(brandProfileIdSchema).default([]),
+  enabled: z.boolean().default(true),
+  // Skipped when NODE_ENV is production, e.g. for localhost origins
+  developmentOnly: z.boolean().default(false),
+})
+
+export type ApiClient = z.infer<typeof apiClientSchema>
+
+export const apiClientRegistrySchema = z.object({
+  version: z.number().int().positive(),
+  clients: z.array(apiClientSchema).refine(
+    (clients) => new Set(clients.map((client) => client.id)).size === clients.length,
+    { message: "Client IDs must be unique" },
+  ),
+})
+
+export type ApiClientRegistry = z.infer<typeof apiClientRegistrySchema>
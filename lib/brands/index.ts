@@ -0,0 +1,69 @@
+import { promises as fs } from "fs"
+import bundledRegistry from "@/config/brand-profiles.json"
+import type { ApiClient } from "@/lib/api-clients"
+import { type BrandProfile, type BrandRegistry, brandRegistrySchema } from "@/lib/brands/schema"
+import type { Locale } from "@/lib/i18n"
+
+export type { BrandCopy, BrandProfile } from "@/lib/brands/schema"
+
+let cachedRegistry: BrandRegistry | null = null
+
+// BRAND_PROFILES_PATH points at a replacement registry; otherwise the bundled
+// config/brand-profiles.json is used
+async function loadBrandRegistry(): Promise<BrandRegistry> {
+  if (cachedRegistry) return cachedRegistry
+
+  const source = process.env.BRAND_PROFILES_PATH
+    ? JSON.parse(await fs.readFile(process.env.BRAND_PROFILES_PATH, "utf8"))
+    : bundledRegistry
+
+  const result = brandRegistrySchema.safeParse(source)
+  if (!result.success) {
+    throw new Error(
+      `Invalid brand profiles: ${result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join(", ")}`,
+    )
+  }
+
+  cachedRegistry = result.data
+  return cachedRegistry
+}
+
+export async function getBrandProfile(id: string): Promise<BrandProfile | null> {
+  const registry = await loadBrandRegistry()
+  return registry.profiles.find((profile) => profile.id === id) ?? null
+}
+
+// For pages and metadata that aren't tied to a request
+export async function getDefaultBrandProfile(): Promise<BrandProfile> {
+  const registry = await loadBrandRegistry()
+  return registry.profiles.find((profile) => profile.id === registry.defaultProfile) as BrandProfile
+}
+
+// Fills {field} placeholders in catalog text from the brand's copy, so the
+// shared catalog can mention things that differ by market
+export function fillBrandCopy(text: string, brand: BrandProfile, locale: Locale): string {
+  const copy: Record<string, string> = brand.copy[locale]
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(copy, name) ? copy[name] : placeholder,
+  )
+}
+
+export type BrandSelection = { success: true; brand: BrandProfile } | { success: false; error: string }
+
+// A client may pick any of its listed profiles per request and gets the first
+// when it doesn't ask; clients without a list use the registry default
+export async function selectBrandProfile(client: ApiClient, requested: string | null): Promise<BrandSelection> {
+  const registry = await loadBrandRegistry()
+  const allowed = client.brandProfiles.length > 0 ? client.brandProfiles : [registry.defaultProfile]
+  const id = requested || allowed[0]
+
+  if (!allowed.includes(id)) {
+    return { success: false, error: `Unknown brand profile. Expected one of: ${allowed.join(", ")}` }
+  }
+
+  const brand = await getBrandProfile(id)
+  if (!brand) {
+    throw new Error(`API client ${client.id} lists brand profile ${id}, which is not configured`)
+  }
+  return { success: true, brand }
+}
@@ -0,0 +1,106 @@
+import { z } from "zod"
+import { CONSULTATION_TYPES, WEEKDAYS, calendarDateSchema } from "@/lib/consultations/schema"
+import type { Locale } from "@/lib/i18n"
+
+export const brandProfileIdSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Brand profile IDs must be lowercase words joined by dashes")
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Must be a 24-hour time like 09:00")
+
+const openingHoursSchema = z
+  .object({ open: timeOfDaySchema, close: timeOfDaySchema })
+  .refine((hours) => hours.open < hours.close, { message: "Must open before it closes" })
+
+// Weekdays left out are closed
+const weeklyHoursSchema = z.object(
+  WEEKDAYS.reduce(
+    (shape, day) => ({ ...shape, [day]: openingHoursSchema.optional() }),
+    {} as Record<(typeof WEEKDAYS)[number], z.ZodOptional<typeof openingHoursSchema>>,
+  ),
+)
+
+const consultationSettingsSchema = z.object({
+  showroomAddress: z.string().min(1),
+  hours: weeklyHoursSchema,
+  // Holidays and other full days off, as YYYY-MM-DD in the profile's time zone
+  closedDates: z.array(calendarDateSchema).default([]),
+  // Start times are offered on this grid, counted from opening time
+  slotMinutes: z.number().int().positive().max(240),
+  durationMinutes: z.object(
+    CONSULTATION_TYPES.reduce(
+      (shape, type) => ({ ...shape, [type]: z.number().int().positive().max(480) }),
+      {} as Record<(typeof CONSULTATION_TYPES)[number], z.ZodNumber>,
+    ),
+  ),
+  minNoticeHours: z.number().int().min(0).default(24),
+  bookingWindowDays: z.number().int().positive().max(365).default(30),
+})
+
+export type ConsultationSettings = z.infer<typeof consultationSettingsSchema>
+
+// Customer-facing wording that differs by market. Catalog labels name these
+// fields in braces, e.g. "Ventilated lockers for {outerwear}".
+const brandCopySchema = z.object({
+  // What gets hung up wet by the door, e.g. "wet winter gear"
+  outerwear: z.string().min(1),
+})
+
+export type BrandCopy = z.infer<typeof brandCopySchema>
+
+const brandProfileSchema = z.object({
+  id: brandProfileIdSchema,
+  companyName: z.string().min(1),
+  // Shown after the company name, e.g. "Custom Cabinetry"
+  tagline: z.string().min(1),
+  // What customers know the design tool as; also the lead source in the CRM
+  productName: z.string().min(1),
+  city: z.string().min(1),
+  region: z.string().min(1),
+  climate: z.object({
+    // What the analysis should keep in mind, e.g. "long, cold winters"
+    summary: z.string().min(1),
+    // Extra staging for every render, e.g. "room for winter gear"
+    storage: z.string().min(1),
+  }),
+  currency: z.string().length(3),
+  tax: z.object({ label: z.string().min(1), rate: z.number().min(0).max(1) }),
+  // How the analysis narrative should sound, e.g. "warm and plain-spoken"
+  tone: z.string().min(1),
+  copy: z.object({
+    "en-CA": brandCopySchema,
+    "fr-CA": brandCopySchema,
+  } satisfies Record<Locale, typeof brandCopySchema>),
+  // IANA zone that business hours and consultation times are kept in
+  timeZone: z.string().refine(isTimeZone, { message: "Must be an IANA time zone like America/Edmonton" }),
+  consultations: consultationSettingsSchema,
+})
+
+export type BrandProfile = z.infer<typeof brandProfileSchema>
+
+export const brandRegistrySchema = z
+  .object({
+    version: z.number().int().positive(),
+    defaultProfile: brandProfileIdSchema,
+    profiles: z.array(brandProfileSchema).min(1),
+  })
+  .superRefine((registry, context) => {
+    const ids = registry.profiles.map((profile) => profile.id)
+    if (new Set(ids).size !== ids.length) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["profiles"], message: "Brand profile IDs must be unique" })
+    }
+    if (!ids.includes(registry.defaultProfile)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["defaultProfile"], message: "Must be one of the profiles" })
+    }
+  })
+
+export type BrandRegistry = z.infer<typeof brandRegistrySchema>
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-CA", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
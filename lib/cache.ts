@@ -0,0 +1,95 @@
+import { createHash } from "crypto"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+// Caches paid AI results so retries and double-clicks don't pay twice
+
+export interface CacheStore {
+  get(key: string): Promise<unknown | null>
+  set(key: string, value: unknown, ttlMs: number): Promise<void>
+}
+
+export type CacheOptions<T> = {
+  // Results that shouldn't be reused, such as failed parses, are skipped
+  shouldCache?: (value: T) => boolean
+}
+
+export function createInMemoryCacheStore(maxEntries = 1000): CacheStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return structuredClone(entry.value)
+    },
+
+    async set(key, value, ttlMs) {
+      // Maps keep insertion order, so the first key is the oldest
+      if (entries.size >= maxEntries && !entries.has(key)) {
+        const oldest = entries.keys().next().value
+        if (oldest !== undefined) entries.delete(oldest)
+      }
+      entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs })
+    },
+  }
+}
+
+function getCacheStore(): CacheStore {
+  return singleton("resultCache", () => createInMemoryCacheStore())
+}
+
+export function setCacheStore(cacheStore: CacheStore) {
+  replaceSingleton("resultCache", cacheStore)
+}
+
+// Work in progress, shared so simultaneous duplicates wait on one call
+const inFlight = singleton("resultCacheInFlight", () => new Map<string, Promise<unknown>>())
+
+// RESULT_CACHE_TTL_SECONDS=0 turns caching off; in-flight sharing still applies
+function cacheTtlMs(): number {
+  const value = Number(process.env.RESULT_CACHE_TTL_SECONDS)
+  return (Number.isInteger(value) && value >= 0 ? value : 24 * 60 * 60) * 1000
+}
+
+export function hashBuffer(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex")
+}
+
+// Stable key for any JSON-serializable parts
+export function cacheKey(kind: string, ...parts: unknown[]): string {
+  return `${kind}:${createHash("sha256").update(JSON.stringify(parts)).digest("hex")}`
+}
+
+export async function withCache<T>(
+  key: string,
+  compute: () => Promise<T>,
+  options: CacheOptions<T> = {},
+): Promise<{ value: T; cached: boolean }> {
+  const store = getCacheStore()
+  const hit = await store.get(key)
+  if (hit !== null) {
+    return { value: hit as T, cached: true }
+  }
+
+  const pending = inFlight.get(key)
+  if (pending) {
+    return { value: structuredClone((await pending) as T), cached: true }
+  }
+
+  const run = compute()
+  inFlight.set(key, run)
+  try {
+    const value = await run
+    const ttlMs = cacheTtlMs()
+    if (ttlMs > 0 && (!options.shouldCache || options.shouldCache(value))) {
+      await store.set(key, value, ttlMs)
+    }
+    return { value, cached: false }
+  } finally {
+    inFlight.delete(key)
+  }
+}
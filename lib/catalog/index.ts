@@ -0,0 +1,134 @@
+import {
+  CATALOG_SECTIONS,
+  type CatalogConditions,
+  type CatalogSection,
+  type DesignCatalog,
+} from "@/lib/catalog/schema"
+import { type CatalogStore, createFileCatalogStore } from "@/lib/catalog/store"
+import type { CookingHabit, RoomType } from "@/lib/rooms"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+export type { DesignCatalog, CatalogSection } from "@/lib/catalog/schema"
+export type { CatalogStore } from "@/lib/catalog/store"
+
+// Admin edits run one at a time through `queue`, each on a fresh load, so
+// concurrent edits can't drop each other or reuse a version number
+type CatalogState = { store: CatalogStore; cached: DesignCatalog | null; queue: Promise<unknown> }
+
+function getState(): CatalogState {
+  return singleton<CatalogState>("designCatalog", () => ({
+    store: createFileCatalogStore(),
+    cached: null,
+    queue: Promise.resolve(),
+  }))
+}
+
+export function setCatalogStore(store: CatalogStore) {
+  replaceSingleton<CatalogState>("designCatalog", { store, cached: null, queue: Promise.resolve() })
+}
+
+export async function getDesignCatalog(): Promise<DesignCatalog> {
+  const state = getState()
+  if (!state.cached) {
+    state.cached = await state.store.load()
+  }
+  return state.cached
+}
+
+// Own keys only, so keys such as "constructor" don't find prototype members
+export function getCatalogEntry<S extends CatalogSection>(
+  catalog: DesignCatalog,
+  section: S,
+  key: string,
+): DesignCatalog[S][string] | null {
+  const entries = catalog[section] as Record<string, DesignCatalog[S][string]>
+  return Object.prototype.hasOwnProperty.call(entries, key) ? entries[key] : null
+}
+
+// For keys already validated against this same catalog, such as generation
+// preferences, where a missing entry is a bug rather than bad input
+export function requireCatalogEntry<S extends CatalogSection>(
+  catalog: DesignCatalog,
+  section: S,
+  key: string,
+): DesignCatalog[S][string] {
+  const entry = getCatalogEntry(catalog, section, key)
+  if (!entry) throw new Error(`Unknown ${section} key: ${key}`)
+  return entry
+}
+
+export type CatalogMatchContext = {
+  room: RoomType
+  style: string
+  storage: string
+  cooking: CookingHabit | ""
+  family: string
+}
+
+export function matchesConditions(when: CatalogConditions, context: CatalogMatchContext): boolean {
+  if (when.rooms && !when.rooms.includes(context.room)) return false
+  if (when.styles && !when.styles.includes(context.style)) return false
+  if (when.storage && !when.storage.includes(context.storage)) return false
+  if (when.cooking && !when.cooking.some((habit) => habit === context.cooking)) return false
+  if (when.family && !when.family.some((word) => context.family.includes(word))) return false
+  return true
+}
+
+// Storage options offered for a room type, as catalog keys
+export function storageOptionsFor(catalog: DesignCatalog, roomType: RoomType): string[] {
+  return Object.keys(catalog.storageFeatures).filter((key) => {
+    const { rooms } = catalog.storageFeatures[key]
+    return !rooms || rooms.includes(roomType)
+  })
+}
+
+export type CatalogUpdateResult = { success: true; catalog: DesignCatalog } | { success: false; errors: string[] }
+
+export async function upsertCatalogEntry(
+  section: CatalogSection,
+  key: string,
+  entry: unknown,
+): Promise<CatalogUpdateResult> {
+  const result = CATALOG_SECTIONS[section].safeParse(entry)
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    }
+  }
+
+  const updated = await updateCatalog((catalog) => ({
+    ...catalog,
+    version: catalog.version + 1,
+    [section]: { ...catalog[section], [key]: result.data },
+  }))
+  return { success: true, catalog: updated as DesignCatalog }
+}
+
+// Returns false when there was no such entry
+export async function deleteCatalogEntry(section: CatalogSection, key: string): Promise<boolean> {
+  const updated = await updateCatalog((catalog) => {
+    if (!getCatalogEntry(catalog, section, key)) return null
+
+    const entries = { ...catalog[section] }
+    delete entries[key]
+    return { ...catalog, version: catalog.version + 1, [section]: entries }
+  })
+  return updated !== null
+}
+
+// Read-modify-write in the queue. `change` returns null to leave the catalog
+// as it is.
+function updateCatalog(change: (catalog: DesignCatalog) => DesignCatalog | null): Promise<DesignCatalog | null> {
+  const state = getState()
+  const run = state.queue.then(async () => {
+    const updated = change(await state.store.load())
+    if (updated) {
+      await state.store.save(updated)
+      state.cached = updated
+    }
+    return updated
+  })
+  state.queue = run.catch(() => undefined)
+  return run
+}
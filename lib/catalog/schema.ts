@@ -0,0 +1,96 @@
+import { z } from "zod"
+import type { Locale } from "@/lib/i18n"
+import { COOKING_HABITS, ROOM_TYPES } from "@/lib/rooms"
+
+export const DESIGN_TIERS = ["primary", "enhanced", "value"] as const
+
+// Customer-facing text needs every locale; an entry missing one is rejected
+const localizedTextSchema = z.object({
+  "en-CA": z.string().min(1),
+  "fr-CA": z.string().min(1),
+} satisfies Record<Locale, z.ZodString>)
+
+const tierTextSchema = z.object({
+  primary: localizedTextSchema,
+  enhanced: localizedTextSchema,
+  value: localizedTextSchema,
+})
+
+// Style, storage and cooking habits match exact preference values. Family
+// size matches when the preference contains any of the listed words, so
+// "large" covers both "large" and "large-family". Room types match exactly;
+// entries without them apply to every room.
+const conditionsSchema = z
+  .object({
+    rooms: z.array(z.enum(ROOM_TYPES)).optional(),
+    styles: z.array(z.string().min(1)).optional(),
+    storage: z.array(z.string().min(1)).optional(),
+    cooking: z.array(z.enum(COOKING_HABITS)).optional(),
+    family: z.array(z.string().min(1)).optional(),
+  })
+  .default({})
+
+// Prompt snippets are only read by the image model, so they stay in English
+export const cabinetStyleSchema = z.object({
+  label: localizedTextSchema,
+  tiers: tierTextSchema,
+  promptSnippet: z.string().min(1),
+})
+
+export const colorPaletteSchema = z.object({
+  label: localizedTextSchema,
+  tiers: tierTextSchema,
+})
+
+// Labels may name brand copy fields in braces, e.g. "{outerwear}"
+export const keyFeatureSchema = z.object({
+  label: localizedTextSchema,
+  tiers: z.array(z.enum(DESIGN_TIERS)).min(1),
+  when: conditionsSchema,
+})
+
+export const storageFeatureSchema = z.object({
+  label: localizedTextSchema,
+  features: z.array(localizedTextSchema).min(1),
+  enhancedExtras: z.array(localizedTextSchema),
+  // Rooms this storage option is offered for; every room when omitted
+  rooms: z.array(z.enum(ROOM_TYPES)).optional(),
+})
+
+export const promptSnippetSchema = z.object({
+  text: z.string().min(1),
+  when: conditionsSchema,
+})
+
+// Catalog keys end up in URLs and form values, so keep them slug-like
+const catalogKey = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Keys must be lowercase words joined by dashes")
+
+export const designCatalogSchema = z.object({
+  version: z.number().int().nonnegative(),
+  cabinetStyles: z.record(catalogKey, cabinetStyleSchema),
+  colorPalettes: z.record(catalogKey, colorPaletteSchema),
+  keyFeatures: z.record(catalogKey, keyFeatureSchema),
+  storageFeatures: z.record(catalogKey, storageFeatureSchema),
+  promptSnippets: z.record(catalogKey, promptSnippetSchema),
+})
+
+export type DesignCatalog = z.infer<typeof designCatalogSchema>
+export type CatalogConditions = z.infer<typeof conditionsSchema>
+
+export const CATALOG_SECTIONS = {
+  cabinetStyles: cabinetStyleSchema,
+  colorPalettes: colorPaletteSchema,
+  keyFeatures: keyFeatureSchema,
+  storageFeatures: storageFeatureSchema,
+  promptSnippets: promptSnippetSchema,
+} as const
+
+export type CatalogSection = keyof typeof CATALOG_SECTIONS
+
+export function isCatalogSection(value: string): value is CatalogSection {
+  return Object.prototype.hasOwnProperty.call(CATALOG_SECTIONS, value)
+}
+
+export function isCatalogKey(value: string): boolean {
+  return catalogKey.safeParse(value).success
+}
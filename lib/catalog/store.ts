@@ -0,0 +1,34 @@
+import bundledCatalog from "@/config/design-catalog.json"
+import { type DesignCatalog, designCatalogSchema } from "@/lib/catalog/schema"
+import { createJsonFile, dataPath } from "@/lib/storage/json-file"
+
+export interface CatalogStore {
+  load(): Promise<DesignCatalog>
+  save(catalog: DesignCatalog): Promise<void>
+}
+
+function parseCatalog(source: unknown, origin: string): DesignCatalog {
+  const result = designCatalogSchema.safeParse(source)
+  if (!result.success) {
+    const fields = result.error.issues.map((issue) => issue.path.join("."))
+    throw new Error(`Invalid design catalog in ${origin}: ${fields.join(", ")}`)
+  }
+  return result.data
+}
+
+// Admin edits are saved to the data directory; until the first edit the
+// bundled config/design-catalog.json is used
+export function createFileCatalogStore(filePath = dataPath("design-catalog.json")): CatalogStore {
+  const file = createJsonFile<unknown>(filePath, () => null)
+
+  return {
+    async load() {
+      const saved = await file.read()
+      return saved ? parseCatalog(saved, filePath) : parseCatalog(bundledCatalog, "config/design-catalog.json")
+    },
+
+    async save(catalog) {
+      await file.replace(parseCatalog(catalog, "update"))
+    },
+  }
+}
@@ -0,0 +1,76 @@
+import type { BrandProfile } from "@/lib/brands"
+import type { Booking } from "@/lib/consultations/store"
+import { translate } from "@/lib/i18n"
+
+// iCalendar (RFC 5545) invite for a booked consultation. Times are written
+// in UTC so no VTIMEZONE block is needed.
+
+export type InviteAttendee = { name: string; email: string }
+
+function formatInstant(iso: string): string {
+  return iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+// Control characters other than line breaks aren't allowed in text values
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n")
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+}
+
+// Parameter values are quoted and can't be escaped, so quotes become
+// apostrophes and control characters spaces; neither can end the value or line
+function paramValue(value: string): string {
+  return `"${value.replace(/[\u0000-\u001f\u007f]+/g, " ").replace(/"/g, "'")}"`
+}
+
+// Lines longer than 75 bytes continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ""
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+export function renderInvite(booking: Booking, brand: BrandProfile, attendee: InviteAttendee | null): string {
+  const { locale } = booking
+  const description = [
+    translate(locale, "consultation.description", { design: booking.styleName, reference: booking.id }),
+    booking.notes ? translate(locale, "consultation.notes", { notes: booking.notes }) : null,
+  ].filter((line): line is string => line !== null)
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${escapeText(brand.companyName)}//Design Consultations//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${booking.id}@${brand.id}`,
+    `DTSTAMP:${formatInstant(booking.createdAt)}`,
+    `DTSTART:${formatInstant(booking.start)}`,
+    `DTEND:${formatInstant(booking.end)}`,
+    `SUMMARY:${escapeText(translate(locale, `consultation.summary.${booking.type}`, { company: brand.companyName }))}`,
+    `DESCRIPTION:${escapeText(description.join("\n\n"))}`,
+    `LOCATION:${escapeText(booking.address ?? brand.consultations.showroomAddress)}`,
+    "STATUS:CONFIRMED",
+  ]
+  if (attendee) {
+    lines.push(`ATTENDEE;CN=${paramValue(attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`)
+  }
+  lines.push("END:VEVENT", "END:VCALENDAR")
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`
+}
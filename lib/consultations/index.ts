@@ -0,0 +1,108 @@
+import type { BrandProfile } from "@/lib/brands"
+import { type InviteAttendee, renderInvite } from "@/lib/consultations/ics"
+import { type Slot, addDays, checkSlot, fromLocalTime, listSlots, toLocalTime } from "@/lib/consultations/schedule"
+import type { BookingRequest, ConsultationType } from "@/lib/consultations/schema"
+import { type Booking, type BookingStore, createFileBookingStore } from "@/lib/consultations/store"
+import { DEFAULT_LOCALE, translate } from "@/lib/i18n"
+import { getLeadStore } from "@/lib/leads"
+import type { DesignSession } from "@/lib/sessions"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+export type { Slot } from "@/lib/consultations/schedule"
+export type { Booking, BookingStore } from "@/lib/consultations/store"
+
+// Shared so every route checks for clashes against the same queued file
+function getBookingStore(): BookingStore {
+  return singleton("bookingStore", () => createFileBookingStore())
+}
+
+export function setBookingStore(bookingStore: BookingStore) {
+  replaceSingleton("bookingStore", bookingStore)
+}
+
+export function getBooking(id: string): Promise<Booking | null> {
+  return getBookingStore().get(id)
+}
+
+// Open consultation slots at the brand's showroom, starting today when no
+// date is given
+export async function listOpenSlots(
+  brand: BrandProfile,
+  type: ConsultationType,
+  from: string | undefined,
+  days: number,
+  now = new Date(),
+): Promise<{ from: string; slots: Slot[] }> {
+  const { consultations: settings, timeZone } = brand
+  const firstDate = from ?? toLocalTime(now, timeZone).date
+  const busy = await getBookingStore().listBetween(
+    brand.id,
+    fromLocalTime(firstDate, 0, timeZone),
+    fromLocalTime(addDays(firstDate, days), 0, timeZone),
+  )
+  return { from: firstDate, slots: listSlots(settings, timeZone, type, firstDate, days, busy, now) }
+}
+
+export type BookingResult = { success: true; booking: Booking } | { success: false; status: number; error: string }
+
+// Books one of the offered slots for the session's lead and one of its
+// designs. Each lead can have one upcoming consultation at a time.
+export async function bookConsultation(
+  session: DesignSession,
+  brand: BrandProfile,
+  request: BookingRequest,
+  now = new Date(),
+): Promise<BookingResult> {
+  const locale = session.locale ?? DEFAULT_LOCALE
+  const design = session.designs.find((candidate) => candidate.designId === request.designId)
+  if (!design) {
+    return { success: false, status: 404, error: translate(locale, "session.designNotFound") }
+  }
+
+  const { consultations: settings } = brand
+  const start = new Date(request.start)
+  const problem = checkSlot(settings, brand.timeZone, request.type, start, now)
+  if (problem) {
+    const values = { hours: settings.minNoticeHours, days: settings.bookingWindowDays }
+    return { success: false, status: 422, error: translate(locale, `consultation.${problem}`, values) }
+  }
+
+  const end = new Date(start.getTime() + settings.durationMinutes[request.type] * 60 * 1000)
+  const created = await getBookingStore().create(
+    {
+      brandProfile: brand.id,
+      leadId: session.leadId,
+      sessionId: session.id,
+      designId: design.designId,
+      styleName: design.styleName,
+      type: request.type,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      address: request.type === "in-home" ? (request.address ?? null) : null,
+      notes: request.notes || null,
+      locale,
+    },
+    now,
+  )
+  if (!created.success) {
+    const key = created.reason === "upcoming" ? "consultation.upcoming" : "consultation.taken"
+    return { success: false, status: 409, error: translate(locale, key) }
+  }
+  return { success: true, booking: created.booking }
+}
+
+// The .ics invite, addressed to whoever the session was made for. Older
+// sessions fall back to the lead when they are still on file.
+export async function createBookingInvite(
+  booking: Booking,
+  session: DesignSession,
+  brand: BrandProfile,
+): Promise<string> {
+  const contact = session.contact ?? (await getLeadStore().get(booking.leadId))
+  const attendee: InviteAttendee | null = contact ? { name: contact.name, email: contact.email } : null
+  return renderInvite(booking, brand, attendee)
+}
+
+export function invitePath(booking: Booking): string {
+  return `/api/sessions/${booking.sessionId}/consultations/${booking.id}/invite`
+}
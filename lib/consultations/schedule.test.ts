@@ -0,0 +1,74 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { ConsultationSettings } from "@/lib/brands/schema"
+import { checkSlot, fromLocalTime, listSlots, toLocalTime } from "@/lib/consultations/schedule"
+
+// Alberta leaves daylight saving time on 2026-11-01 and returns to it on 2027-03-14
+const timeZone = "America/Edmonton"
+
+const settings: ConsultationSettings = {
+  showroomAddress: "Showroom",
+  hours: {
+    saturday: { open: "09:00", close: "11:00" },
+    sunday: { open: "01:00", close: "04:00" },
+    monday: { open: "09:00", close: "11:00" },
+  },
+  closedDates: [],
+  slotMinutes: 60,
+  durationMinutes: { showroom: 60, "in-home": 90 },
+  minNoticeHours: 24,
+  bookingWindowDays: 30,
+}
+
+function starts(slots: { start: string }[]): string[] {
+  return slots.map((slot) => slot.start)
+}
+
+describe("listSlots", () => {
+  it("keeps opening hours on local time across the fall change", () => {
+    const now = new Date("2026-10-20T12:00:00Z")
+    const slots = listSlots(settings, timeZone, "showroom", "2026-10-31", 3, [], now)
+
+    assert.deepEqual(starts(slots), [
+      // Saturday, UTC-6
+      "2026-10-31T15:00:00.000Z",
+      "2026-10-31T16:00:00.000Z",
+      // Sunday: 01:00 happens twice and the earlier one is offered, then UTC-7
+      "2026-11-01T07:00:00.000Z",
+      "2026-11-01T09:00:00.000Z",
+      "2026-11-01T10:00:00.000Z",
+      // Monday, UTC-7
+      "2026-11-02T16:00:00.000Z",
+      "2026-11-02T17:00:00.000Z",
+    ])
+    assert.equal(slots[0].end, "2026-10-31T16:00:00.000Z")
+  })
+
+  it("skips start times the spring change jumps over", () => {
+    const now = new Date("2027-03-01T12:00:00Z")
+    const slots = listSlots(settings, timeZone, "showroom", "2027-03-14", 1, [], now)
+
+    // 02:00 never happens that night
+    assert.deepEqual(starts(slots), ["2027-03-14T08:00:00.000Z", "2027-03-14T09:00:00.000Z"])
+    assert.deepEqual(slots.map((slot) => toLocalTime(new Date(slot.start), timeZone).minutes), [60, 180])
+  })
+
+  it("leaves out slots that overlap a booking, need more notice or are past the window", () => {
+    const now = new Date("2026-10-30T15:30:00Z")
+    const busy = [{ start: "2026-11-02T16:30:00Z", end: "2026-11-02T17:30:00Z" }]
+    const slots = listSlots(settings, timeZone, "showroom", "2026-10-31", 40, busy, now)
+
+    assert.equal(slots[0].start, "2026-10-31T16:00:00.000Z")
+    assert.ok(!starts(slots).some((start) => start.startsWith("2026-11-02")))
+    assert.ok(slots.every((slot) => toLocalTime(new Date(slot.start), timeZone).date <= "2026-11-29"))
+  })
+})
+
+describe("checkSlot", () => {
+  it("accepts the listed slots on both sides of the change", () => {
+    const now = new Date("2026-10-20T12:00:00Z")
+    assert.equal(checkSlot(settings, timeZone, "showroom", fromLocalTime("2026-10-31", 9 * 60, timeZone), now), null)
+    assert.equal(checkSlot(settings, timeZone, "showroom", fromLocalTime("2026-11-02", 9 * 60, timeZone), now), null)
+    assert.equal(checkSlot(settings, timeZone, "showroom", new Date("2026-11-02T15:00:00Z"), now), "hours")
+  })
+})
@@ -0,0 +1,155 @@
+import type { ConsultationSettings } from "@/lib/brands/schema"
+import { type ConsultationType, WEEKDAYS } from "@/lib/consultations/schema"
+
+// Business hours are kept as wall-clock times in the showroom's time zone;
+// everything stored or sent back is a UTC instant.
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+export type Slot = { start: string; end: string }
+
+// A booked time, as far as availability is concerned
+export type BusyTime = { start: string; end: string }
+
+type LocalTime = { date: string; minutes: number }
+
+// Why a start time can't be booked
+export type SlotProblem = "past" | "notice" | "window" | "hours"
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value)
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+function parseDate(date: string): number {
+  const [year, month, day] = date.split("-").map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+function formatDate(timestamp: number): string {
+  const day = new Date(timestamp)
+  return `${day.getUTCFullYear()}-${pad(day.getUTCMonth() + 1)}-${pad(day.getUTCDate())}`
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * DAY)
+}
+
+// The date and minutes past midnight on the showroom's clocks
+export function toLocalTime(instant: Date, timeZone: string): LocalTime {
+  // en-US formats as "10/20/2026, 09:00"; some runtimes write midnight as 24:00
+  const [month, day, year, hour, minute] = (zoneFormatter(timeZone).format(instant).match(/\d+/g) ?? []).map(Number)
+  return { date: `${year}-${pad(month)}-${pad(day)}`, minutes: (hour % 24) * 60 + minute }
+}
+
+// The instant the showroom's clocks read the given time. Times skipped by a
+// daylight saving change come out an hour off, so callers convert back to check.
+export function fromLocalTime(date: string, minutes: number, timeZone: string): Date {
+  const wallClock = parseDate(date) + minutes * MINUTE
+  const offsetAt = (instant: number) => {
+    const local = toLocalTime(new Date(instant), timeZone)
+    return parseDate(local.date) + local.minutes * MINUTE - Math.floor(instant / MINUTE) * MINUTE
+  }
+  // A second pass settles instants near a daylight saving change
+  const guess = wallClock - offsetAt(wallClock)
+  return new Date(wallClock - offsetAt(guess))
+}
+
+function overlaps(start: number, end: number, busy: BusyTime[]): boolean {
+  return busy.some((time) => start < Date.parse(time.end) && Date.parse(time.start) < end)
+}
+
+// Start times on the given day's grid, before notice, window or bookings apply
+function dayStarts(settings: ConsultationSettings, date: string, duration: number): number[] {
+  const hours = settings.hours[WEEKDAYS[new Date(parseDate(date)).getUTCDay()]]
+  if (!hours || settings.closedDates.includes(date)) return []
+
+  const starts: number[] = []
+  const close = parseTimeOfDay(hours.close)
+  for (let minutes = parseTimeOfDay(hours.open); minutes + duration <= close; minutes += settings.slotMinutes) {
+    starts.push(minutes)
+  }
+  return starts
+}
+
+function lastBookableDate(settings: ConsultationSettings, timeZone: string, now: Date): string {
+  return addDays(toLocalTime(now, timeZone).date, settings.bookingWindowDays)
+}
+
+// Open slots from `from` for `days` days, skipping anything too soon, past
+// the booking window or overlapping a booking
+export function listSlots(
+  settings: ConsultationSettings,
+  timeZone: string,
+  type: ConsultationType,
+  from: string,
+  days: number,
+  busy: BusyTime[],
+  now: Date,
+): Slot[] {
+  const duration = settings.durationMinutes[type]
+  const earliest = now.getTime() + settings.minNoticeHours * 60 * MINUTE
+  const lastDate = lastBookableDate(settings, timeZone, now)
+  const slots: Slot[] = []
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(from, offset)
+    if (date > lastDate) break
+
+    for (const minutes of dayStarts(settings, date, duration)) {
+      const start = fromLocalTime(date, minutes, timeZone).getTime()
+      const end = start + duration * MINUTE
+      if (start < earliest || overlaps(start, end, busy)) continue
+      // Skip starts that fall in a daylight saving gap
+      if (toLocalTime(new Date(start), timeZone).minutes !== minutes) continue
+      slots.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString() })
+    }
+  }
+  return slots
+}
+
+// Null if the start time is one of the offered slots. Clashes with other
+// bookings are left to the store.
+export function checkSlot(
+  settings: ConsultationSettings,
+  timeZone: string,
+  type: ConsultationType,
+  start: Date,
+  now: Date,
+): SlotProblem | null {
+  if (start.getTime() <= now.getTime()) return "past"
+  if (start.getTime() < now.getTime() + settings.minNoticeHours * 60 * MINUTE) return "notice"
+
+  const local = toLocalTime(start, timeZone)
+  if (local.date > lastBookableDate(settings, timeZone, now)) return "window"
+
+  const onTheMinute = start.getTime() % MINUTE === 0
+  if (!onTheMinute || !dayStarts(settings, local.date, settings.durationMinutes[type]).includes(local.minutes)) {
+    return "hours"
+  }
+  return null
+}
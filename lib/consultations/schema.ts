@@ -0,0 +1,49 @@
+import { z } from "zod"
+
+export const CONSULTATION_TYPES = ["showroom", "in-home"] as const
+
+export type ConsultationType = (typeof CONSULTATION_TYPES)[number]
+
+// In the order Date#getDay counts them
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const
+
+// A real day as YYYY-MM-DD. Checked by a round trip through Date, since
+// Date.UTC quietly rolls 2026-13-45 into 2027 and reads year 0000 as 1900.
+export const calendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date like 2026-10-20")
+  .refine(
+    (value) => {
+      const [year, month, day] = value.split("-").map(Number)
+      const date = new Date(Date.UTC(year, month - 1, day))
+      return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    },
+    { message: "Must be a real calendar date" },
+  )
+
+export const bookingRequestSchema = z
+  .object({
+    designId: z.string().uuid(),
+    type: z.enum(CONSULTATION_TYPES),
+    // One of the slot start times offered for this session
+    start: z.string().datetime({ offset: true }),
+    // Where to meet for in-home consultations
+    address: z.string().trim().min(5).max(300).optional(),
+    notes: z.string().trim().max(1000).optional(),
+  })
+  .superRefine((booking, context) => {
+    if (booking.type === "in-home" && !booking.address) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["address"], message: "Required for in-home consultations" })
+    }
+  })
+
+export type BookingRequest = z.infer<typeof bookingRequestSchema>
+
+export const slotQuerySchema = z.object({
+  type: z.enum(CONSULTATION_TYPES).default("showroom"),
+  // First day to list, in the showroom's time zone; defaults to today
+  from: calendarDateSchema.optional(),
+  days: z.coerce.number().int().positive().max(31).default(7),
+})
+
+export type SlotQuery = z.infer<typeof slotQuerySchema>
@@ -0,0 +1,77 @@
+import { randomUUID } from "crypto"
+import type { ConsultationType } from "@/lib/consultations/schema"
+import type { Locale } from "@/lib/i18n"
+import { createJsonFile, dataPath } from "@/lib/storage/json-file"
+
+// A consultation booked against a lead and the design they chose
+export type Booking = {
+  id: string
+  createdAt: string
+  // Each brand profile's showroom keeps its own calendar
+  brandProfile: string
+  leadId: string
+  sessionId: string
+  designId: string
+  styleName: string
+  type: ConsultationType
+  start: string
+  end: string
+  // Where to meet for in-home consultations
+  address: string | null
+  notes: string | null
+  // Language the invite is written in
+  locale: Locale
+}
+
+export type BookingInput = Omit<Booking, "id" | "createdAt">
+
+// "taken" when the time overlaps another booking in the same calendar,
+// "upcoming" when the lead already has a consultation that hasn't ended
+export type CreateBookingResult = { success: true; booking: Booking } | { success: false; reason: "taken" | "upcoming" }
+
+export interface BookingStore {
+  // Saves the booking unless it clashes with another or the lead already has
+  // one coming up. The checks and the write must happen as one step.
+  create(input: BookingInput, now?: Date): Promise<CreateBookingResult>
+  get(id: string): Promise<Booking | null>
+  // Bookings in the calendar that overlap [from, to), earliest first
+  listBetween(brandProfile: string, from: Date, to: Date): Promise<Booking[]>
+}
+
+function overlapping(bookings: Booking[], brandProfile: string, from: string, to: string): Booking[] {
+  return bookings.filter((booking) => booking.brandProfile === brandProfile && booking.start < to && from < booking.end)
+}
+
+export function createFileBookingStore(filePath = dataPath("bookings.json")): BookingStore {
+  const file = createJsonFile<Booking[]>(filePath, () => [])
+
+  return {
+    create(input, now = new Date()) {
+      return file.update((bookings): CreateBookingResult => {
+        const nowIso = now.toISOString()
+        if (bookings.some((booking) => booking.leadId === input.leadId && booking.end > nowIso)) {
+          return { success: false, reason: "upcoming" }
+        }
+        if (overlapping(bookings, input.brandProfile, input.start, input.end).length > 0) {
+          return { success: false, reason: "taken" }
+        }
+
+        const booking: Booking = { id: randomUUID(), createdAt: nowIso, ...input }
+        bookings.push(booking)
+        return { success: true, booking }
+      })
+    },
+
+    async get(id) {
+      const bookings = await file.read()
+      return bookings.find((booking) => booking.id === id) || null
+    },
+
+    async listBetween(brandProfile, from, to) {
+      const bookings = await file.read()
+      return overlapping(bookings, brandProfile, from.toISOString(), to.toISOString()).sort((a, b) =>
+        a.start.localeCompare(b.start),
+      )
+    },
+  }
+}
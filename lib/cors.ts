@@ -0,0 +1,17 @@
+// CORS response headers. Which origins are allowed is decided by the API
+// client registry (lib/api-clients); pass null when the origin isn't allowed
+// and no Access-Control-Allow-Origin is sent.
+export function corsHeaders(allowedOrigin: string | null, methods = "POST, OPTIONS"): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": methods,
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Api-Key, X-Request-Id",
+    "Access-Control-Expose-Headers": "RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After, X-Request-Id",
+    "Access-Control-Max-Age": "86400",
+    // Responses differ by origin, so shared caches must key on it
+    Vary: "Origin",
+  }
+  if (allowedOrigin) {
+    headers["Access-Control-Allow-Origin"] = allowedOrigin
+  }
+  return headers
+}
@@ -0,0 +1,13 @@
+// Leading characters that make spreadsheets treat a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: string | number | null): string {
+  let text = value === null ? "" : String(value)
+  // Customer-entered text must never run as a formula when the file is opened
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(header: string[], rows: (string | number | null)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
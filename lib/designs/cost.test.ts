@@ -0,0 +1,38 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getDefaultBrandProfile } from "@/lib/brands"
+import { estimateCost } from "@/lib/designs/cost"
+
+describe("estimateCost", () => {
+  it("adds the brand's tax to the sum of the line items", async () => {
+    const brand = await getDefaultBrandProfile()
+    const estimate = await estimateCost("kitchen", "primary", null, "40k-60k", brand)
+
+    const subtotal = estimate.lineItems.reduce((sum, item) => sum + item.total, 0)
+    assert.equal(estimate.subtotal, subtotal)
+    assert.deepEqual(estimate.tax, { label: "GST", rate: 0.05, amount: Math.round(subtotal * 0.05) })
+    assert.equal(estimate.total, subtotal + estimate.tax.amount)
+    assert.ok(estimate.range.min < estimate.total && estimate.total < estimate.range.max)
+  })
+
+  it("flags estimates over the top of the customer's budget", async () => {
+    const brand = await getDefaultBrandProfile()
+
+    const over = await estimateCost("kitchen", "enhanced", null, "25k-40k", brand)
+    assert.ok(over.total > 40000)
+    assert.deepEqual(over.budget, { range: "25k-40k", min: 25000, max: 40000, overBudget: true })
+
+    const within = await estimateCost("kitchen", "enhanced", null, "100k-plus", brand)
+    assert.equal(within.budget.overBudget, false)
+  })
+
+  it("counts tax towards the budget", async () => {
+    const brand = await getDefaultBrandProfile()
+    const highTax = { ...brand, tax: { label: "HST", rate: 0.15 } }
+
+    const estimate = await estimateCost("kitchen", "primary", null, "25k-40k", highTax)
+    assert.ok(estimate.subtotal <= 40000, "the subtotal alone fits the budget")
+    assert.ok(estimate.total > 40000)
+    assert.equal(estimate.budget.overBudget, true)
+  })
+})
@@ -0,0 +1,368 @@
+import { promises as fs } from "fs"
+import { z } from "zod"
+import bundledPriceBook from "@/config/price-book.json"
+import type { BrandProfile } from "@/lib/brands"
+import { DEFAULT_LOCALE, LOCALE_PROFILES, type Locale, formatCurrency, translate } from "@/lib/i18n"
+import { BUDGET_RANGES, type BudgetRange } from "@/lib/preferences"
+import type { RoomType } from "@/lib/rooms"
+import type { LayoutType, SpaceAnalysis } from "@/lib/space-analysis"
+
+export type DesignTier = "value" | "primary" | "enhanced"
+
+const tierRatesSchema = z.object({
+  baseCabinetPerLinearFoot: z.number().nonnegative(),
+  upperCabinetPerLinearFoot: z.number().nonnegative(),
+  countertopPerSquareFoot: z.number().nonnegative(),
+  hardwarePerPiece: z.number().nonnegative(),
+  lightingPerLinearFoot: z.number().nonnegative(),
+  installationPerLinearFoot: z.number().nonnegative(),
+  countertopInstallPerSquareFoot: z.number().nonnegative(),
+  designAndProjectManagement: z.number().nonnegative(),
+})
+
+const roomRatesSchema = z.object({
+  value: tierRatesSchema,
+  primary: tierRatesSchema,
+  enhanced: tierRatesSchema,
+})
+
+// Rates are in the brand profile's currency, which also sets the tax
+const priceBookSchema = z.object({
+  version: z.string().min(1),
+  // Estimates are shown as a range of ± this fraction around the total
+  estimateSpread: z.number().min(0).max(1),
+  // Every room type needs its own rates
+  rooms: z.object({
+    kitchen: roomRatesSchema,
+    vanity: roomRatesSchema,
+    closet: roomRatesSchema,
+    mudroom: roomRatesSchema,
+    "built-in": roomRatesSchema,
+  } satisfies Record<RoomType, typeof roomRatesSchema>),
+})
+
+export type PriceBook = z.infer<typeof priceBookSchema>
+
+export type CostLineItem = {
+  key: string
+  label: string
+  quantity: number
+  unit: string
+  unitPrice: number
+  total: number
+}
+
+export type CostEstimate = {
+  priceBookVersion: string
+  roomType: RoomType
+  tier: DesignTier
+  currency: string
+  lineItems: CostLineItem[]
+  subtotal: number
+  tax: { label: string; rate: number; amount: number }
+  total: number
+  range: { min: number; max: number }
+  // True when no room analysis was available and a typical room was assumed
+  assumedDimensions: boolean
+  budget: { range: BudgetRange; min: number; max: number; overBudget: boolean }
+}
+
+type RoomSize = { layoutType: LayoutType; lengthFt: number; widthFt: number; windowCount: number }
+
+// Priced quantities: base and upper runs in linear feet, tops in square feet
+type CabinetRuns = { baseFt: number; upperFt: number; countertopSqFt: number }
+
+type RoomCostModel = {
+  // Assumed when there is no analysis of the customer's room
+  defaultRoom: RoomSize
+  runs(room: RoomSize): CabinetRuns
+  labels: Record<Locale, { base: string; upper: string; countertops: string; lighting: string }>
+}
+
+type Measure = "length" | "area" | "pieces" | "project"
+
+// Metric quotes show metres and square metres but are still priced in feet,
+// so every locale quotes the same total
+const METRIC_FACTORS: Partial<Record<Measure, number>> = { length: 0.3048, area: 0.09290304 }
+
+// Standard base cabinet counter depth (25.5") and island depth in feet
+const COUNTER_DEPTH_FT = 2.125
+const ISLAND_DEPTH_FT = 3.5
+// Vanity tops are 22" deep, mudroom benches 18" and built-in tops 16"
+const VANITY_DEPTH_FT = 1.83
+const BENCH_DEPTH_FT = 1.5
+const BUILT_IN_DEPTH_FT = 1.33
+// Upper cabinets stop for each window
+const WINDOW_GAP_FT = 3
+// Closet walls lose this much to the door
+const DOORWAY_FT = 3
+
+// Kitchen cabinet runs along the walls plus any island, from the layout
+function kitchenRuns(layoutType: LayoutType, lengthFt: number, widthFt: number) {
+  const islandFt = Math.max(6, Math.round(lengthFt * 0.5))
+
+  switch (layoutType) {
+    case "galley":
+      return { wallFt: lengthFt * 2, islandFt: 0 }
+    case "single-wall":
+      return { wallFt: lengthFt, islandFt: 0 }
+    case "u-shaped":
+      return { wallFt: lengthFt + widthFt * 2, islandFt: 0 }
+    case "g-shaped":
+      return { wallFt: lengthFt + widthFt * 2, islandFt: Math.round(widthFt * 0.5) }
+    case "peninsula":
+      return { wallFt: lengthFt + widthFt, islandFt: Math.round(widthFt * 0.5) }
+    case "island":
+      return { wallFt: lengthFt + widthFt, islandFt }
+    case "open-concept":
+      return { wallFt: lengthFt, islandFt }
+    default:
+      return { wallFt: lengthFt + widthFt, islandFt: 0 }
+  }
+}
+
+const ROOM_COST_MODELS: Record<RoomType, RoomCostModel> = {
+  kitchen: {
+    defaultRoom: { layoutType: "l-shaped", lengthFt: 12, widthFt: 10, windowCount: 1 },
+    runs({ layoutType, lengthFt, widthFt, windowCount }) {
+      const { wallFt, islandFt } = kitchenRuns(layoutType, lengthFt, widthFt)
+      return {
+        baseFt: wallFt + islandFt,
+        upperFt: Math.max(wallFt - windowCount * WINDOW_GAP_FT, 0),
+        countertopSqFt: wallFt * COUNTER_DEPTH_FT + islandFt * ISLAND_DEPTH_FT,
+      }
+    },
+    labels: {
+      "en-CA": {
+        base: "Base cabinets",
+        upper: "Upper cabinets",
+        countertops: "Countertops",
+        lighting: "Under-cabinet lighting",
+      },
+      "fr-CA": {
+        base: "Armoires du bas",
+        upper: "Armoires du haut",
+        countertops: "Comptoirs",
+        lighting: "Éclairage sous les armoires",
+      },
+    },
+  },
+  vanity: {
+    defaultRoom: { layoutType: "single-wall", lengthFt: 8, widthFt: 5, windowCount: 0 },
+    // Vanities take up to about half the longest wall, between 30" and 7'
+    runs({ lengthFt }) {
+      const vanityFt = Math.min(Math.max(lengthFt * 0.5, 2.5), 7)
+      return { baseFt: vanityFt, upperFt: vanityFt, countertopSqFt: vanityFt * VANITY_DEPTH_FT }
+    },
+    labels: {
+      "en-CA": {
+        base: "Vanity cabinet",
+        upper: "Mirror and medicine cabinets",
+        countertops: "Vanity top",
+        lighting: "Vanity lighting",
+      },
+      "fr-CA": {
+        base: "Meuble-lavabo",
+        upper: "Miroir et pharmacies",
+        countertops: "Dessus de meuble-lavabo",
+        lighting: "Éclairage du meuble-lavabo",
+      },
+    },
+  },
+  closet: {
+    defaultRoom: { layoutType: "walk-in", lengthFt: 8, widthFt: 6, windowCount: 0 },
+    // Walk-ins are fitted on three walls, with an island when there's room
+    runs({ layoutType, lengthFt, widthFt }) {
+      const wallFt = layoutType === "reach-in" ? lengthFt : Math.max(lengthFt * 2 + widthFt - DOORWAY_FT, lengthFt)
+      const islandSqFt = layoutType !== "reach-in" && widthFt >= 8 ? 4 * COUNTER_DEPTH_FT : 0
+      return { baseFt: wallFt * 0.25, upperFt: wallFt, countertopSqFt: islandSqFt }
+    },
+    labels: {
+      "en-CA": {
+        base: "Drawer towers",
+        upper: "Hanging and shelving sections",
+        countertops: "Closet island top",
+        lighting: "Rod and shelf lighting",
+      },
+      "fr-CA": {
+        base: "Colonnes de tiroirs",
+        upper: "Sections de penderie et de tablettes",
+        countertops: "Dessus d'îlot de garde-robe",
+        lighting: "Éclairage des tringles et des tablettes",
+      },
+    },
+  },
+  mudroom: {
+    defaultRoom: { layoutType: "single-wall", lengthFt: 8, widthFt: 6, windowCount: 0 },
+    runs({ layoutType, lengthFt, widthFt }) {
+      const wallFt = layoutType === "l-shaped" ? lengthFt + widthFt : lengthFt
+      return { baseFt: wallFt, upperFt: wallFt, countertopSqFt: wallFt * BENCH_DEPTH_FT }
+    },
+    labels: {
+      "en-CA": {
+        base: "Bench and lockers",
+        upper: "Upper cubbies",
+        countertops: "Bench top",
+        lighting: "Locker lighting",
+      },
+      "fr-CA": {
+        base: "Banc et casiers",
+        upper: "Casiers du haut",
+        countertops: "Dessus de banc",
+        lighting: "Éclairage des casiers",
+      },
+    },
+  },
+  "built-in": {
+    defaultRoom: { layoutType: "single-wall", lengthFt: 12, widthFt: 14, windowCount: 0 },
+    runs({ lengthFt, windowCount }) {
+      return {
+        baseFt: lengthFt,
+        upperFt: Math.max(lengthFt - windowCount * WINDOW_GAP_FT, 0),
+        countertopSqFt: lengthFt * BUILT_IN_DEPTH_FT,
+      }
+    },
+    labels: {
+      "en-CA": {
+        base: "Base cabinets",
+        upper: "Display shelving",
+        countertops: "Cabinet tops",
+        lighting: "Shelf lighting",
+      },
+      "fr-CA": {
+        base: "Armoires du bas",
+        upper: "Tablettes de présentation",
+        countertops: "Dessus d'armoires",
+        lighting: "Éclairage des tablettes",
+      },
+    },
+  },
+}
+
+let cachedPriceBook: PriceBook | null = null
+
+// PRICE_BOOK_PATH points at a replacement JSON price book; otherwise the
+// bundled config/price-book.json is used
+export async function loadPriceBook(): Promise<PriceBook> {
+  if (cachedPriceBook) return cachedPriceBook
+
+  const source = process.env.PRICE_BOOK_PATH
+    ? JSON.parse(await fs.readFile(process.env.PRICE_BOOK_PATH, "utf8"))
+    : bundledPriceBook
+
+  const result = priceBookSchema.safeParse(source)
+  if (!result.success) {
+    throw new Error(`Invalid price book: ${result.error.issues.map((issue) => issue.path.join(".")).join(", ")}`)
+  }
+
+  cachedPriceBook = result.data
+  return cachedPriceBook
+}
+
+function lineItem(
+  locale: Locale,
+  key: string,
+  label: string,
+  quantity: number,
+  measure: Measure,
+  unitPrice: number,
+): CostLineItem {
+  const roundedQuantity = Math.round(quantity * 10) / 10
+  const total = Math.round(roundedQuantity * unitPrice)
+  const unit = translate(locale, `unit.${measure}`)
+
+  const factor = LOCALE_PROFILES[locale].units === "metric" ? METRIC_FACTORS[measure] : undefined
+  if (!factor) {
+    return { key, label, quantity: roundedQuantity, unit, unitPrice, total }
+  }
+  return {
+    key,
+    label,
+    quantity: Math.round(quantity * factor * 10) / 10,
+    unit,
+    unitPrice: Math.round(unitPrice / factor),
+    total,
+  }
+}
+
+export async function estimateCost(
+  roomType: RoomType,
+  tier: DesignTier,
+  spaceAnalysis: SpaceAnalysis | null,
+  budgetRange: BudgetRange,
+  brand: BrandProfile,
+  locale: Locale = DEFAULT_LOCALE,
+): Promise<CostEstimate> {
+  const priceBook = await loadPriceBook()
+  const rates = priceBook.rooms[roomType][tier]
+  const model = ROOM_COST_MODELS[roomType]
+
+  const room: RoomSize = spaceAnalysis
+    ? {
+        layoutType: spaceAnalysis.layoutType,
+        lengthFt: spaceAnalysis.roomDimensions.lengthFt,
+        widthFt: spaceAnalysis.roomDimensions.widthFt,
+        windowCount: spaceAnalysis.windows.length,
+      }
+    : model.defaultRoom
+
+  const { baseFt, upperFt, countertopSqFt } = model.runs(room)
+  const labels = model.labels[locale]
+  // Roughly one door or drawer front per 1.5 feet of cabinet
+  const hardwarePieces = Math.ceil((baseFt + upperFt) / 1.5)
+
+  const lineItems = [
+    lineItem(locale, "base-cabinets", labels.base, baseFt, "length", rates.baseCabinetPerLinearFoot),
+    lineItem(locale, "upper-cabinets", labels.upper, upperFt, "length", rates.upperCabinetPerLinearFoot),
+    lineItem(locale, "countertops", labels.countertops, countertopSqFt, "area", rates.countertopPerSquareFoot),
+    lineItem(locale, "hardware", translate(locale, "cost.hardware"), hardwarePieces, "pieces", rates.hardwarePerPiece),
+    lineItem(locale, "lighting", labels.lighting, upperFt, "length", rates.lightingPerLinearFoot),
+    lineItem(
+      locale,
+      "cabinet-installation",
+      translate(locale, "cost.cabinetInstallation"),
+      baseFt + upperFt,
+      "length",
+      rates.installationPerLinearFoot,
+    ),
+    lineItem(
+      locale,
+      "countertop-installation",
+      translate(locale, "cost.countertopInstallation"),
+      countertopSqFt,
+      "area",
+      rates.countertopInstallPerSquareFoot,
+    ),
+    lineItem(locale, "design", translate(locale, "cost.design"), 1, "project", rates.designAndProjectManagement),
+  ].filter((item) => item.quantity > 0)
+
+  const subtotal = lineItems.reduce((sum, item) => sum + item.total, 0)
+  const taxAmount = Math.round(subtotal * brand.tax.rate)
+  const total = subtotal + taxAmount
+  const budget = BUDGET_RANGES[budgetRange]
+
+  return {
+    priceBookVersion: priceBook.version,
+    roomType,
+    tier,
+    currency: brand.currency,
+    lineItems,
+    subtotal,
+    tax: { label: brand.tax.label, rate: brand.tax.rate, amount: taxAmount },
+    total,
+    range: {
+      min: Math.round((total * (1 - priceBook.estimateSpread)) / 100) * 100,
+      max: Math.round((total * (1 + priceBook.estimateSpread)) / 100) * 100,
+    },
+    assumedDimensions: !spaceAnalysis,
+    budget: { range: budgetRange, ...budget, overBudget: total > budget.max },
+  }
+}
+
+export function formatCostRange(estimate: CostEstimate, locale: Locale = DEFAULT_LOCALE): string {
+  return translate(locale, "cost.range", {
+    min: formatCurrency(locale, estimate.range.min, estimate.currency),
+    max: formatCurrency(locale, estimate.range.max, estimate.currency),
+    currency: estimate.currency,
+  })
+}
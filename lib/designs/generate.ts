@@ -0,0 +1,179 @@
+import { randomUUID } from "crypto"
+import { recordActivity, recordError } from "@/lib/activity"
+import type { AIProvider } from "@/lib/ai"
+import type { BrandProfile } from "@/lib/brands"
+import type { Locale } from "@/lib/i18n"
+import { type Logger, logger } from "@/lib/logger"
+import type { DesignCatalog } from "@/lib/catalog"
+import { type RenderMode, createImagePrompt } from "@/lib/designs/image-prompt"
+import { type CostEstimate, estimateCost, formatCostRange } from "@/lib/designs/cost"
+import { type RenderPhoto, renderDesignImage } from "@/lib/designs/render"
+import { type DesignVariation, createDesignVariations } from "@/lib/designs/variations"
+import type { Preferences } from "@/lib/preferences"
+import type { RoomType } from "@/lib/rooms"
+import { addSessionDesign } from "@/lib/sessions"
+import type { SpaceAnalysis } from "@/lib/space-analysis"
+
+export type GeneratedDesign = {
+  designId: string
+  // Set on designs produced by refining another design
+  parentDesignId?: string
+  refinement?: string
+  styleName: string
+  description: string
+  cabinetStyle: string
+  colorPalette: string
+  keyFeatures: string[]
+  estimatedCost: string
+  costEstimate: CostEstimate
+  // The estimate exceeds the customer's stated budget range
+  overBudget: boolean
+  timeline: string
+  whyThisWorks: string
+  layoutOptimization: string[]
+  storageFeatures: string[]
+  renderId?: string
+  generatedImage?: string
+  // The render was reused from an identical earlier request
+  cached?: boolean
+  imagePrompt?: string
+  imageStatus: "success" | "failed"
+}
+
+export type GenerationStats = {
+  imagesGenerated: number
+  imagesFailed: number
+  imagesFromCache: number
+}
+
+export type GenerationRequest = {
+  provider: AIProvider
+  // Company, city and pricing the designs are written for
+  brand: BrandProfile
+  // Language and units of the design copy; prompts stay in English
+  locale: Locale
+  roomType: RoomType
+  preferences: Preferences
+  // The catalog the preferences were validated against, kept so admin edits
+  // made during a generation can't remove the entries it uses
+  catalog: DesignCatalog
+  spaceAnalysis: SpaceAnalysis | null
+  renderMode: RenderMode
+  // The customer's photo, used by the edit render mode
+  photo: RenderPhoto
+  // Absolute origin that stored render URLs are served from
+  imageBaseUrl: string
+  // Design session that every finished design is saved to
+  sessionId?: string
+  // A spend cap was reached: render at lower quality and skip the premium design
+  economy?: boolean
+  // Request-scoped logger, kept for background jobs
+  log?: Logger
+}
+
+// Progress callbacks so callers can report each design as it finishes
+export type GenerationProgress = {
+  onStart?(variations: DesignVariation[]): void | Promise<void>
+  onDesignStarted?(index: number, variation: DesignVariation): void | Promise<void>
+  onDesignFinished?(index: number, design: GeneratedDesign): void | Promise<void>
+}
+
+export async function generateDesigns(
+  request: GenerationRequest,
+  progress: GenerationProgress = {},
+): Promise<{ designs: GeneratedDesign[]; stats: GenerationStats }> {
+  const {
+    provider,
+    brand,
+    locale,
+    roomType,
+    preferences,
+    catalog,
+    spaceAnalysis,
+    renderMode,
+    photo,
+    imageBaseUrl,
+    sessionId,
+    economy,
+  } = request
+  const log = (request.log ?? logger).child({ sessionId })
+
+  // Create personalized design variations
+  const designVariations = createDesignVariations(preferences, catalog, roomType, brand, locale).filter(
+    (variation) => !economy || variation.tier !== "enhanced",
+  )
+  const designs: GeneratedDesign[] = []
+  const stats: GenerationStats = { imagesGenerated: 0, imagesFailed: 0, imagesFromCache: 0 }
+
+  await progress.onStart?.(designVariations)
+
+  // Generate 3D renderings for each design
+  for (let index = 0; index < designVariations.length; index++) {
+    const designVariation = designVariations[index]
+    const costEstimate = await estimateCost(
+      roomType,
+      designVariation.tier,
+      spaceAnalysis,
+      preferences.budgetRange,
+      brand,
+      locale,
+    )
+    const details = {
+      designId: randomUUID(),
+      styleName: designVariation.name,
+      description: designVariation.description,
+      cabinetStyle: designVariation.cabinetStyle,
+      colorPalette: designVariation.colorPalette,
+      keyFeatures: designVariation.keyFeatures,
+      estimatedCost: formatCostRange(costEstimate, locale),
+      costEstimate,
+      overBudget: costEstimate.budget?.overBudget ?? false,
+      timeline: designVariation.timeline,
+      whyThisWorks: designVariation.whyThisWorks,
+      layoutOptimization: designVariation.layoutOptimization,
+      storageFeatures: designVariation.storageFeatures,
+    }
+    let design: GeneratedDesign
+
+    await progress.onDesignStarted?.(index, designVariation)
+
+    try {
+      log.info("Rendering design", { styleName: designVariation.name, index, of: designVariations.length })
+
+      const imagePrompt = createImagePrompt(
+        designVariation,
+        preferences,
+        catalog,
+        spaceAnalysis,
+        renderMode,
+        roomType,
+        brand,
+      )
+
+      const render = await renderDesignImage(provider, renderMode, imagePrompt, photo, imageBaseUrl, economy)
+
+      design = { ...details, ...render, imagePrompt, imageStatus: "success" }
+      stats.imagesGenerated++
+      if (render.cached) {
+        stats.imagesFromCache++
+      }
+      log.info("Design rendered", { styleName: designVariation.name, renderId: render.renderId, cached: render.cached })
+    } catch (error) {
+      log.error("Design render failed", { styleName: designVariation.name, error })
+      await recordError("render", error, { sessionId })
+      design = { ...details, imageStatus: "failed" }
+      stats.imagesFailed++
+    }
+
+    designs.push(design)
+    if (sessionId) {
+      await addSessionDesign(sessionId, design)
+    }
+    await progress.onDesignFinished?.(index, design)
+  }
+
+  log.info("Design generation complete", { ...stats })
+  await recordActivity({ type: "generation", sessionId: sessionId ?? null, roomType, ...stats })
+
+  return { designs, stats }
+}
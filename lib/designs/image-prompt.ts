@@ -0,0 +1,77 @@
+import type { BrandProfile } from "@/lib/brands"
+import { type DesignCatalog, matchesConditions, requireCatalogEntry } from "@/lib/catalog"
+import {
+  type DesignVariation,
+  getCabinetStyle,
+  getColorPalette,
+  getStorageFeatures,
+} from "@/lib/designs/variations"
+import type { Locale } from "@/lib/i18n"
+import type { Preferences } from "@/lib/preferences"
+import { ROOM_PROFILES, type RoomType } from "@/lib/rooms"
+import { type SpaceAnalysis, describeSpaceForPrompt } from "@/lib/space-analysis"
+
+export type RenderMode = "generate" | "edit"
+
+// Image prompts are written in English whatever language the customer reads
+const PROMPT_LOCALE: Locale = "en-CA"
+
+export function createImagePrompt(
+  design: DesignVariation,
+  preferences: Preferences,
+  catalog: DesignCatalog,
+  spaceAnalysis: SpaceAnalysis | null,
+  renderMode: RenderMode,
+  roomType: RoomType,
+  brand: BrandProfile,
+): string {
+  const room = ROOM_PROFILES[roomType]
+  const style = preferences.kitchenStyle
+  const cooking = preferences.cookingHabits
+  const family = preferences.familySize
+
+  let prompt =
+    renderMode === "edit"
+      ? `Redesign the ${room.noun} in this photo as a ${style} ${room.noun} by ${brand.companyName} ${brand.city}. Keep the walls, windows, doors, ceiling height and camera angle exactly as they are; replace only ${room.editScope}. `
+      : `A stunning, photorealistic 3D rendering of a ${style} ${room.noun} design for ${brand.companyName} ${brand.city}. `
+
+  // Match the customer's analyzed room
+  if (spaceAnalysis) {
+    prompt += describeSpaceForPrompt(spaceAnalysis)
+  }
+
+  // Add style-specific details
+  prompt += `${requireCatalogEntry(catalog, "cabinetStyles", style).promptSnippet} `
+
+  // Add color palette
+  prompt += `Color scheme: ${getColorPalette(catalog, preferences.colorPreference, design.tier, PROMPT_LOCALE)}. `
+
+  // Add layout and family size considerations
+  const context = { room: roomType, style, storage: preferences.storageNeeds, cooking, family }
+  for (const snippet of Object.values(catalog.promptSnippets)) {
+    if (matchesConditions(snippet.when, context)) {
+      prompt += `${snippet.text} `
+    }
+  }
+
+  // Add technical specifications
+  prompt += `${getCabinetStyle(catalog, style, design.tier, PROMPT_LOCALE)}. ${room.promptSpecs} `
+
+  // Add storage features
+  const storageFeatures = getStorageFeatures(catalog, preferences.storageNeeds, design.tier, PROMPT_LOCALE)
+  prompt += `Storage features: ${storageFeatures.slice(0, 3).join(", ")}. `
+
+  // Add regional elements
+  prompt += `Designed for ${brand.city} homes with ${room.promptSetting} and ${brand.climate.storage}. `
+
+  // Add final quality specifications
+  prompt += `Professional architectural photography style, perfect natural lighting, 4K quality, hyperrealistic rendering. The ${room.noun} should look like a high-end interior design magazine photo with perfect staging, warm lighting, and inviting atmosphere. Show the space as lived-in and welcoming for a family in ${brand.city}.`
+
+  return prompt
+}
+
+// Derives a refinement prompt from the one that produced the original
+// render, so only the requested change differs between the two
+export function refineImagePrompt(originalPrompt: string, change: string): string {
+  return `${originalPrompt} Customer-requested change: ${change.trim()}. Apply this change and keep the layout, camera angle, materials and everything else the same as described above.`
+}
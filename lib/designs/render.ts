@@ -0,0 +1,43 @@
+import type { AIProvider } from "@/lib/ai"
+import { cacheKey, hashBuffer, withCache } from "@/lib/cache"
+import type { RenderMode } from "@/lib/designs/image-prompt"
+import { persistRender, renderImagePath } from "@/lib/renders"
+
+export type RenderPhoto = { buffer: Buffer; mimeType: string }
+
+// Renders one image and keeps our own copy, since provider URLs expire.
+// The prompt is built from the normalized preferences, analysis and catalog,
+// so together with the photo it identifies a render that can be reused.
+export async function renderDesignImage(
+  provider: AIProvider,
+  renderMode: RenderMode,
+  prompt: string,
+  photo: RenderPhoto,
+  imageBaseUrl: string,
+  // Cheaper quality, used once a spend cap is reached
+  economy = false,
+): Promise<{ renderId: string; generatedImage: string; cached: boolean }> {
+  const key = cacheKey(
+    "render",
+    provider.name,
+    renderMode,
+    economy,
+    prompt,
+    renderMode === "edit" ? hashBuffer(photo.buffer) : null,
+  )
+
+  const { value: renderId, cached } = await withCache(key, async () => {
+    const { url } =
+      renderMode === "edit"
+        ? await provider.editImage({ prompt, image: photo.buffer, mimeType: photo.mimeType, economy })
+        : await provider.generateImage({ prompt, economy })
+
+    if (!url) {
+      throw new Error("No image URL returned")
+    }
+
+    return persistRender(url)
+  })
+
+  return { renderId, generatedImage: `${imageBaseUrl}${renderImagePath(renderId)}`, cached }
+}
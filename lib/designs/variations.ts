@@ -0,0 +1,176 @@
+import { type BrandProfile, fillBrandCopy } from "@/lib/brands"
+import { type CatalogMatchContext, type DesignCatalog, matchesConditions, requireCatalogEntry } from "@/lib/catalog"
+import type { DesignTier } from "@/lib/designs/cost"
+import { DEFAULT_LOCALE, type Locale, translate } from "@/lib/i18n"
+import type { Preferences } from "@/lib/preferences"
+import { type CookingHabit, ROOM_PROFILES, type RoomType } from "@/lib/rooms"
+
+export type DesignVariation = {
+  name: string
+  tier: DesignTier
+  description: string
+  cabinetStyle: string
+  colorPalette: string
+  keyFeatures: string[]
+  timeline: string
+  complexity: string
+  whyThisWorks: string
+  layoutOptimization: string[]
+  storageFeatures: string[]
+}
+
+// Design variation creation based on user preferences. Preferences must
+// already be validated against this catalog by createPreferencesSchema.
+export function createDesignVariations(
+  preferences: Preferences,
+  catalog: DesignCatalog,
+  roomType: RoomType,
+  brand: BrandProfile,
+  locale: Locale = DEFAULT_LOCALE,
+): DesignVariation[] {
+  const room = ROOM_PROFILES[roomType]
+  const baseStyle = preferences.kitchenStyle
+  const colorPref = preferences.colorPreference
+  const storage = preferences.storageNeeds
+  const cooking = preferences.cookingHabits
+  const context: CatalogMatchContext = {
+    room: roomType,
+    style: baseStyle,
+    storage,
+    cooking,
+    family: preferences.familySize,
+  }
+
+  const styleName = requireCatalogEntry(catalog, "cabinetStyles", baseStyle).label[locale]
+  const copy = {
+    styleName,
+    style: styleName.toLocaleLowerCase(locale),
+    storage: requireCatalogEntry(catalog, "storageFeatures", storage).label[locale].toLocaleLowerCase(locale),
+    room: room.copy[locale].noun,
+    city: brand.city,
+    company: brand.companyName,
+    routine: translate(locale, roomType === "kitchen" ? "variation.routine.kitchen" : "variation.routine.other"),
+    cooking: cooking
+      ? translate(locale, "variation.primary.cooking", { cooking: translate(locale, `cooking.${cooking}`) })
+      : "",
+  }
+  const timeline = (tier: DesignTier) => {
+    const [min, max] = room.timelines[tier]
+    return translate(locale, "variation.timeline", { min, max })
+  }
+
+  const variations: DesignVariation[] = []
+
+  // Primary design based on user's exact preferences
+  variations.push({
+    name: translate(locale, "variation.primary.name", copy),
+    tier: "primary",
+    description: translate(locale, "variation.primary.description", copy),
+    cabinetStyle: getCabinetStyle(catalog, baseStyle, "primary", locale),
+    colorPalette: getColorPalette(catalog, colorPref, "primary", locale),
+    keyFeatures: getKeyFeatures(catalog, context, "primary", brand, locale),
+    timeline: timeline("primary"),
+    complexity: "high",
+    whyThisWorks: translate(locale, "variation.primary.whyThisWorks", copy),
+    layoutOptimization: getLayoutOptimization(roomType, cooking, storage, locale),
+    storageFeatures: getStorageFeatures(catalog, storage, "primary", locale),
+  })
+
+  // Enhanced premium design
+  variations.push({
+    name: translate(locale, "variation.enhanced.name", copy),
+    tier: "enhanced",
+    description: translate(locale, "variation.enhanced.description", copy),
+    cabinetStyle: getCabinetStyle(catalog, baseStyle, "enhanced", locale),
+    colorPalette: getColorPalette(catalog, colorPref, "enhanced", locale),
+    keyFeatures: getKeyFeatures(catalog, context, "enhanced", brand, locale),
+    timeline: timeline("enhanced"),
+    complexity: "premium",
+    whyThisWorks: translate(locale, "variation.enhanced.whyThisWorks", copy),
+    layoutOptimization: getLayoutOptimization(roomType, cooking, storage, locale, "enhanced"),
+    storageFeatures: getStorageFeatures(catalog, storage, "enhanced", locale),
+  })
+
+  // Value-conscious alternative
+  variations.push({
+    name: translate(locale, "variation.value.name", copy),
+    tier: "value",
+    description: translate(locale, "variation.value.description", copy),
+    cabinetStyle: getCabinetStyle(catalog, baseStyle, "value", locale),
+    colorPalette: getColorPalette(catalog, colorPref, "value", locale),
+    keyFeatures: getKeyFeatures(catalog, context, "value", brand, locale),
+    timeline: timeline("value"),
+    complexity: "standard",
+    whyThisWorks: translate(locale, "variation.value.whyThisWorks", copy),
+    layoutOptimization: getLayoutOptimization(roomType, cooking, storage, locale, "value"),
+    storageFeatures: getStorageFeatures(catalog, storage, "value", locale),
+  })
+
+  return variations
+}
+
+export function getCabinetStyle(catalog: DesignCatalog, style: string, tier: DesignTier, locale: Locale): string {
+  return requireCatalogEntry(catalog, "cabinetStyles", style).tiers[tier][locale]
+}
+
+export function getColorPalette(catalog: DesignCatalog, colorPref: string, tier: DesignTier, locale: Locale): string {
+  return requireCatalogEntry(catalog, "colorPalettes", colorPref).tiers[tier][locale]
+}
+
+function getKeyFeatures(
+  catalog: DesignCatalog,
+  context: CatalogMatchContext,
+  tier: DesignTier,
+  brand: BrandProfile,
+  locale: Locale,
+): string[] {
+  return Object.values(catalog.keyFeatures)
+    .filter((feature) => feature.tiers.includes(tier) && matchesConditions(feature.when, context))
+    .map((feature) => fillBrandCopy(feature.label[locale], brand, locale))
+}
+
+function getLayoutOptimization(
+  roomType: RoomType,
+  cooking: CookingHabit | "",
+  storage: string,
+  locale: Locale,
+  tier = "primary",
+): string[] {
+  const { layoutOptimization } = ROOM_PROFILES[roomType].copy[locale]
+  const optimizations: string[] = []
+
+  // Kitchen workflow advice; other rooms get their profile's suggestions
+  if (roomType === "kitchen") {
+    if (cooking === "daily" || cooking === "frequent") {
+      optimizations.push(translate(locale, "layout.workTriangle"))
+      optimizations.push(translate(locale, "layout.prepAreas"))
+    }
+
+    if (cooking === "entertainer") {
+      optimizations.push(translate(locale, "layout.openLayout"))
+      optimizations.push(translate(locale, "layout.servingSpace"))
+    }
+
+    if (storage === "maximum-storage") {
+      optimizations.push(translate(locale, "layout.floorToCeiling"))
+      optimizations.push(translate(locale, "layout.cornerCabinets"))
+    }
+  }
+
+  if (optimizations.length === 0) {
+    optimizations.push(...layoutOptimization.fallback)
+  }
+
+  if (tier === "enhanced") {
+    optimizations.push(...layoutOptimization.enhanced)
+  }
+
+  return optimizations
+}
+
+export function getStorageFeatures(catalog: DesignCatalog, storage: string, tier: DesignTier, locale: Locale): string[] {
+  const { features, enhancedExtras } = requireCatalogEntry(catalog, "storageFeatures", storage)
+  const selected = tier === "enhanced" ? [...features, ...enhancedExtras] : features
+
+  return selected.map((feature) => feature[locale])
+}
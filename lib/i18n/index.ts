@@ -0,0 +1,48 @@
+import { MESSAGES, type MessageKey } from "@/lib/i18n/messages"
+
+export type { MessageKey } from "@/lib/i18n/messages"
+
+export const LOCALES = ["en-CA", "fr-CA"] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = "en-CA"
+
+// Text that has to exist in every locale, such as catalog copy
+export type LocalizedText = Record<Locale, string>
+
+export type UnitSystem = "imperial" | "metric"
+
+type LocaleProfile = {
+  // How the analysis is asked to write, e.g. "Canadian French"
+  language: string
+  units: UnitSystem
+}
+
+export const LOCALE_PROFILES: Record<Locale, LocaleProfile> = {
+  "en-CA": { language: "Canadian English", units: "imperial" },
+  "fr-CA": { language: "Canadian French", units: "metric" },
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value)
+}
+
+export function translate(locale: Locale, key: MessageKey, values: Record<string, string | number> = {}): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  )
+}
+
+export function formatNumber(locale: Locale, value: number, maximumFractionDigits = 2): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value)
+}
+
+// Whole amounts, e.g. "$34,800" in en-CA and "34 800 $" in fr-CA
+export function formatCurrency(locale: Locale, amount: number, currency: string): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency, maximumFractionDigits: 0 }).format(amount)
+}
+
+export function formatDate(locale: Locale, date: Date): string {
+  return date.toLocaleDateString(locale, { dateStyle: "long" })
+}
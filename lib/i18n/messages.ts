@@ -0,0 +1,268 @@
+import type { Locale } from "@/lib/i18n"
+
+// Customer-facing copy. en-CA defines the keys; every other locale is typed
+// against them, so a missing or misspelled translation fails the type check.
+// Placeholders are written {name} and filled in by translate().
+
+const EN_CA = {
+  "generation.message": "Generated {count} personalized {room} designs for {company}!",
+
+  "variation.primary.name": "Custom {styleName} Design",
+  "variation.primary.description":
+    "A personalized {style} {room} designed specifically for your {city} home, {routine}, and storage needs.",
+  "variation.primary.whyThisWorks":
+    "This design perfectly matches your {style} style preference while optimizing for {cooking}your {storage} needs. Perfect for {city}'s lifestyle.",
+  "variation.primary.cooking": "your {cooking} cooking habits and ",
+  "cooking.daily": "daily",
+  "cooking.frequent": "frequent",
+  "cooking.occasional": "occasional",
+  "cooking.quick": "quick",
+  "cooking.minimal": "minimal",
+  "cooking.entertainer": "entertaining",
+  "variation.enhanced.name": "Premium {styleName} Collection",
+  "variation.enhanced.description":
+    "An elevated version of your preferred style with luxury features and enhanced functionality for the discerning {city} homeowner.",
+  "variation.enhanced.whyThisWorks":
+    "This premium design builds on your style preferences with luxury materials and advanced storage solutions for the ultimate {city} {room} experience.",
+  "variation.value.name": "Smart {styleName} Value",
+  "variation.value.description":
+    "A cost-effective approach to your preferred style without compromising on {company} quality or functionality.",
+  "variation.value.whyThisWorks":
+    "This design delivers your desired {style} aesthetic with smart material choices and efficient layouts that maximize value for {city} families.",
+  "variation.routine.kitchen": "cooking style",
+  "variation.routine.other": "daily routine",
+  "variation.timeline": "{min}-{max} weeks",
+
+  "layout.workTriangle": "Optimized work triangle for efficient cooking",
+  "layout.prepAreas": "Multiple prep areas for complex meals",
+  "layout.openLayout": "Open layout for social cooking and entertaining",
+  "layout.servingSpace": "Extended counter space for serving guests",
+  "layout.floorToCeiling": "Floor-to-ceiling storage maximization",
+  "layout.cornerCabinets": "Corner cabinet optimization with lazy susans",
+
+  "layoutType.galley": "Galley",
+  "layoutType.l-shaped": "L-shaped",
+  "layoutType.u-shaped": "U-shaped",
+  "layoutType.g-shaped": "G-shaped",
+  "layoutType.island": "Island",
+  "layoutType.peninsula": "Peninsula",
+  "layoutType.single-wall": "Single wall",
+  "layoutType.open-concept": "Open concept",
+  "layoutType.walk-in": "Walk-in",
+  "layoutType.reach-in": "Reach-in",
+  "layoutType.alcove": "Alcove",
+  "layoutType.other": "Custom",
+
+  "cost.hardware": "Hardware",
+  "cost.cabinetInstallation": "Cabinet installation",
+  "cost.countertopInstallation": "Countertop installation",
+  "cost.design": "Design and project management",
+  "cost.range": "{min} - {max} {currency}",
+  "unit.length": "linear ft",
+  "unit.area": "sq ft",
+  "unit.pieces": "pieces",
+  "unit.project": "project",
+
+  "proposal.documentTitle": "{company} Design Proposal - {name}",
+  "proposal.creator": "{company} {product}",
+  "proposal.title": "Custom {room} Design Proposal",
+  "proposal.preparedFor": "Prepared For",
+  "proposal.preparedOn": "Prepared {date}",
+  "proposal.yourSpace": "Your Space",
+  "proposal.layout": "Layout",
+  "proposal.dimensions": "Approximate dimensions",
+  "proposal.dimensionsValue":
+    "{lengthFt}' x {widthFt}' ({lengthM} m x {widthM} m), {heightFt}' ({heightM} m) ceilings",
+  "proposal.lighting": "Lighting",
+  "proposal.windows": "Windows",
+  "proposal.doors": "Doors",
+  "proposal.challenges": "Challenges",
+  "proposal.opportunities": "Opportunities",
+  "proposal.option": "Option {number}: {name}",
+  "proposal.noRender": "Rendering not available for this design.",
+  "proposal.cabinetStyle": "Cabinet style",
+  "proposal.colorPalette": "Colour palette",
+  "proposal.keyFeatures": "Key features",
+  "proposal.storageFeatures": "Storage features",
+  "proposal.layoutOptimization": "Layout optimization",
+  "proposal.estimatedCost": "Estimated investment",
+  "proposal.costBreakdown": "Cost breakdown",
+  "proposal.costLine": "{label}: {amount}",
+  "proposal.subtotal": "Subtotal",
+  "proposal.total": "Total",
+  "proposal.timeline": "Timeline",
+  "proposal.disclaimer":
+    "Estimates are based on the photo analysis and will be confirmed after an in-person measure. Renderings are AI-generated concepts.",
+
+  "consultation.summary.showroom": "Showroom design consultation with {company}",
+  "consultation.summary.in-home": "In-home design consultation with {company}",
+  "consultation.description":
+    "We'll walk through your {design} design, answer your questions and talk about next steps. Booking reference: {reference}",
+  "consultation.notes": "Your notes: {notes}",
+  "consultation.past": "That time has already passed",
+  "consultation.notice": "Consultations need at least {hours} hours' notice",
+  "consultation.window": "Consultations can be booked up to {days} days ahead",
+  "consultation.hours": "That time is outside our consultation hours",
+  "consultation.taken": "That time is no longer available. Please choose another slot.",
+  "consultation.upcoming": "You already have an upcoming consultation. Please contact us to change it.",
+
+  "session.notFound": "Session not found",
+  "session.designNotFound": "Design not found in this session",
+  "session.designNotFoundId": "Design not found in this session: {id}",
+  "session.noDesigns": "This session has no designs yet",
+  "session.contactMissing": "The contact details for this session are no longer on file",
+  "refine.noRender": "This design has no render to refine. Please generate it again.",
+  "refine.photoMissing": "The original photo for this session is no longer available",
+
+  "analysis.noUsableRoom": "We couldn't find a {room} to design in these photos. Please upload clear photos of the whole space.",
+
+  "photo.name": "Photo {number}",
+  "photo.nameWithLabel": "Photo {number} ({label})",
+  "photo.problem": "{photo}: {message}",
+  "photo.missing": "No image provided",
+  "photo.tooMany": "Please upload at most {max} photos.",
+  "photo.invalidLabels": "Invalid photo labels",
+  "photo.tooLarge": "Image too large. Please use an image under {max} MB.",
+  "photo.heic": "HEIC photos aren't supported. Please upload a JPEG or PNG.",
+  "photo.invalid": "Please upload a valid image file.",
+  "photo.unreadable": "This image could not be read. Please try a different photo.",
+  "photoCheck.failed": "We couldn't check your photos. Please try again.",
+  "photoCheck.wrong-subject": "This doesn't look like a {room}. Please upload a photo of the space you'd like redesigned.",
+  "photoCheck.poor-quality":
+    "This photo is too dark or blurry to design from. Please retake it in good light and hold the camera steady.",
+  "photoCheck.unsafe": "This photo can't be used. Please upload a photo of your {room}.",
+}
+
+export type MessageKey = keyof typeof EN_CA
+
+const FR_CA: Record<MessageKey, string> = {
+  "generation.message": "{count} designs personnalisés pour votre {room}, créés pour {company} !",
+
+  "variation.primary.name": "Design {style} sur mesure",
+  "variation.primary.description":
+    "Un design {style} personnalisé pour votre {room}, pensé pour votre maison de {city}, votre {routine} et vos besoins de rangement.",
+  "variation.primary.whyThisWorks":
+    "Ce design correspond parfaitement à votre préférence pour le style {style} tout en tenant compte de {cooking}vos besoins en {storage}. Idéal pour le mode de vie de {city}.",
+  "variation.primary.cooking": "vos habitudes culinaires ({cooking}) et de ",
+  "cooking.daily": "quotidiennes",
+  "cooking.frequent": "fréquentes",
+  "cooking.occasional": "occasionnelles",
+  "cooking.quick": "rapides",
+  "cooking.minimal": "minimales",
+  "cooking.entertainer": "axées sur la réception",
+  "variation.enhanced.name": "Collection {style} haut de gamme",
+  "variation.enhanced.description":
+    "Une version rehaussée de votre style préféré, avec des caractéristiques de luxe et une fonctionnalité accrue pour les propriétaires exigeants de {city}.",
+  "variation.enhanced.whyThisWorks":
+    "Ce design haut de gamme s'appuie sur vos préférences avec des matériaux de luxe et des solutions de rangement avancées pour un résultat d'exception dans votre {room}, à {city}.",
+  "variation.value.name": "Formule {style} économique",
+  "variation.value.description":
+    "Une approche économique de votre style préféré, sans compromis sur la qualité ni la fonctionnalité signées {company}.",
+  "variation.value.whyThisWorks":
+    "Ce design offre l'esthétique {style} que vous recherchez grâce à des choix de matériaux judicieux et à des aménagements efficaces qui maximisent la valeur pour les familles de {city}.",
+  "variation.routine.kitchen": "façon de cuisiner",
+  "variation.routine.other": "routine quotidienne",
+  "variation.timeline": "{min} à {max} semaines",
+
+  "layout.workTriangle": "Triangle de travail optimisé pour cuisiner efficacement",
+  "layout.prepAreas": "Plusieurs zones de préparation pour les repas élaborés",
+  "layout.openLayout": "Aménagement ouvert pour cuisiner en bonne compagnie et recevoir",
+  "layout.servingSpace": "Surface de comptoir prolongée pour servir les invités",
+  "layout.floorToCeiling": "Rangement maximisé du plancher au plafond",
+  "layout.cornerCabinets": "Armoires de coin optimisées avec plateaux tournants",
+
+  "layoutType.galley": "En corridor",
+  "layoutType.l-shaped": "En L",
+  "layoutType.u-shaped": "En U",
+  "layoutType.g-shaped": "En G",
+  "layoutType.island": "Avec îlot",
+  "layoutType.peninsula": "Avec péninsule",
+  "layoutType.single-wall": "Sur un seul mur",
+  "layoutType.open-concept": "Aire ouverte",
+  "layoutType.walk-in": "De plain-pied",
+  "layoutType.reach-in": "Placard",
+  "layoutType.alcove": "En alcôve",
+  "layoutType.other": "Sur mesure",
+
+  "cost.hardware": "Quincaillerie",
+  "cost.cabinetInstallation": "Installation des armoires",
+  "cost.countertopInstallation": "Installation des comptoirs",
+  "cost.design": "Conception et gestion de projet",
+  "cost.range": "{min} à {max} {currency}",
+  "unit.length": "m linéaire",
+  "unit.area": "m²",
+  "unit.pieces": "pièces",
+  "unit.project": "projet",
+
+  "proposal.documentTitle": "Proposition de design {company} - {name}",
+  "proposal.creator": "{product} de {company}",
+  "proposal.title": "Proposition de design pour votre {room}",
+  "proposal.preparedFor": "Préparé pour",
+  "proposal.preparedOn": "Préparé le {date}",
+  "proposal.yourSpace": "Votre espace",
+  "proposal.layout": "Aménagement",
+  "proposal.dimensions": "Dimensions approximatives",
+  "proposal.dimensionsValue": "{lengthM} m x {widthM} m, plafond de {heightM} m",
+  "proposal.lighting": "Éclairage",
+  "proposal.windows": "Fenêtres",
+  "proposal.doors": "Portes",
+  "proposal.challenges": "Défis",
+  "proposal.opportunities": "Possibilités",
+  "proposal.option": "Option {number} : {name}",
+  "proposal.noRender": "Rendu non disponible pour ce design.",
+  "proposal.cabinetStyle": "Style d'armoires",
+  "proposal.colorPalette": "Palette de couleurs",
+  "proposal.keyFeatures": "Caractéristiques principales",
+  "proposal.storageFeatures": "Rangement",
+  "proposal.layoutOptimization": "Optimisation de l'aménagement",
+  "proposal.estimatedCost": "Investissement estimé",
+  "proposal.costBreakdown": "Ventilation des coûts",
+  "proposal.costLine": "{label} : {amount}",
+  "proposal.subtotal": "Sous-total",
+  "proposal.total": "Total",
+  "proposal.timeline": "Échéancier",
+  "proposal.disclaimer":
+    "Les estimations sont fondées sur l'analyse des photos et seront confirmées après une prise de mesures sur place. Les rendus sont des concepts générés par IA.",
+
+  "consultation.summary.showroom": "Consultation de design en salle d'exposition avec {company}",
+  "consultation.summary.in-home": "Consultation de design à domicile avec {company}",
+  "consultation.description":
+    "Nous passerons en revue votre design {design}, répondrons à vos questions et discuterons des prochaines étapes. Numéro de réservation : {reference}",
+  "consultation.notes": "Vos notes : {notes}",
+  "consultation.past": "Ce moment est déjà passé",
+  "consultation.notice": "Les consultations doivent être réservées au moins {hours} heures à l'avance",
+  "consultation.window": "Les consultations peuvent être réservées jusqu'à {days} jours à l'avance",
+  "consultation.hours": "Ce moment est en dehors de nos heures de consultation",
+  "consultation.taken": "Ce moment n'est plus disponible. Veuillez choisir une autre plage horaire.",
+  "consultation.upcoming": "Vous avez déjà une consultation à venir. Veuillez communiquer avec nous pour la modifier.",
+
+  "session.notFound": "Session introuvable",
+  "session.designNotFound": "Design introuvable dans cette session",
+  "session.designNotFoundId": "Design introuvable dans cette session : {id}",
+  "session.noDesigns": "Cette session ne contient encore aucun design",
+  "session.contactMissing": "Les coordonnées de cette session ne sont plus dans nos dossiers",
+  "refine.noRender": "Ce design n'a pas de rendu à peaufiner. Veuillez le générer de nouveau.",
+  "refine.photoMissing": "La photo d'origine de cette session n'est plus disponible",
+
+  "analysis.noUsableRoom":
+    "Nous n'avons pas trouvé de {room} à concevoir sur ces photos. Veuillez téléverser des photos claires de tout l'espace.",
+
+  "photo.name": "Photo {number}",
+  "photo.nameWithLabel": "Photo {number} ({label})",
+  "photo.problem": "{photo} : {message}",
+  "photo.missing": "Aucune image fournie",
+  "photo.tooMany": "Veuillez téléverser au plus {max} photos.",
+  "photo.invalidLabels": "Libellés de photos non valides",
+  "photo.tooLarge": "Image trop volumineuse. Veuillez utiliser une image de moins de {max} Mo.",
+  "photo.heic": "Les photos HEIC ne sont pas prises en charge. Veuillez téléverser un fichier JPEG ou PNG.",
+  "photo.invalid": "Veuillez téléverser un fichier image valide.",
+  "photo.unreadable": "Cette image n'a pas pu être lue. Veuillez essayer une autre photo.",
+  "photoCheck.failed": "Nous n'avons pas pu vérifier vos photos. Veuillez réessayer.",
+  "photoCheck.wrong-subject":
+    "Cette photo ne semble pas montrer votre {room}. Veuillez téléverser une photo de l'espace à réaménager.",
+  "photoCheck.poor-quality":
+    "Cette photo est trop sombre ou floue pour concevoir un design. Veuillez la reprendre avec un bon éclairage en tenant l'appareil immobile.",
+  "photoCheck.unsafe": "Cette photo ne peut pas être utilisée. Veuillez téléverser une photo de votre {room}.",
+}
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { "en-CA": EN_CA, "fr-CA": FR_CA }
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import brandProfiles from "@/config/brand-profiles.json"
+import catalog from "@/config/design-catalog.json"
+import { brandRegistrySchema } from "@/lib/brands/schema"
+import { LOCALES, type MessageKey } from "@/lib/i18n"
+import { MESSAGES } from "@/lib/i18n/messages"
+import { ROOM_PROFILES, ROOM_TYPES } from "@/lib/rooms"
+
+// The types already require every locale; these catch what they can't, such
+// as empty strings and catalog JSON edited by hand
+
+function assertText(value: unknown, where: string) {
+  assert.equal(typeof value, "string", `${where} is missing`)
+  assert.notEqual((value as string).trim(), "", `${where} is empty`)
+}
+
+// Every object with a locale key is localized text and needs all of them
+function findLocalizedText(value: unknown, path: string, found: [string, Record<string, unknown>][]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => findLocalizedText(item, `${path}[${index}]`, found))
+  } else if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>
+    if (LOCALES.some((locale) => locale in record)) {
+      found.push([path, record])
+      return
+    }
+    for (const key of Object.keys(record)) {
+      findLocalizedText(record[key], path ? `${path}.${key}` : key, found)
+    }
+  }
+}
+
+describe("message tables", () => {
+  const keys = Object.keys(MESSAGES["en-CA"])
+
+  it("have the same keys in every locale", () => {
+    for (const locale of LOCALES) {
+      assert.deepEqual(Object.keys(MESSAGES[locale]).sort(), [...keys].sort(), `${locale} keys differ from en-CA`)
+    }
+  })
+
+  it("have text for every key", () => {
+    for (const locale of LOCALES) {
+      for (const key of keys) {
+        assertText(MESSAGES[locale][key as MessageKey], `${locale} ${key}`)
+      }
+    }
+  })
+})
+
+describe("room copy", () => {
+  it("exists in every locale for every room", () => {
+    for (const roomType of ROOM_TYPES) {
+      const english = ROOM_PROFILES[roomType].copy["en-CA"]
+      for (const locale of LOCALES) {
+        const copy = ROOM_PROFILES[roomType].copy[locale]
+        const where = `${roomType} ${locale}`
+        assertText(copy?.noun, `${where} noun`)
+        assert.equal(copy.layoutOptimization.fallback.length, english.layoutOptimization.fallback.length, where)
+        assert.equal(copy.layoutOptimization.enhanced.length, english.layoutOptimization.enhanced.length, where)
+        for (const text of [...copy.layoutOptimization.fallback, ...copy.layoutOptimization.enhanced]) {
+          assertText(text, `${where} layout optimization`)
+        }
+      }
+    }
+  })
+})
+
+describe("design catalog", () => {
+  const found: [string, Record<string, unknown>][] = []
+  findLocalizedText(catalog, "", found)
+
+  it("has localized labels", () => {
+    assert.ok(found.length > 0, "no localized text found in the catalog")
+  })
+
+  it("has every label in every locale", () => {
+    for (const [path, text] of found) {
+      for (const locale of LOCALES) {
+        assertText(text[locale], `${path} ${locale}`)
+      }
+    }
+  })
+
+  it("only names brand copy every profile has", () => {
+    const { profiles } = brandRegistrySchema.parse(brandProfiles)
+    for (const [path, text] of found) {
+      for (const locale of LOCALES) {
+        for (const name of (String(text[locale]).match(/\{\w+\}/g) ?? []).map((field) => field.slice(1, -1))) {
+          for (const profile of profiles) {
+            assert.ok(name in profile.copy[locale], `${path} ${locale} names {${name}}, missing from ${profile.id}`)
+          }
+        }
+      }
+    }
+  })
+})
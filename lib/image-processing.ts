@@ -0,0 +1,87 @@
+import sharp from "sharp"
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "avif" | "heic"
+
+type OutputFormat = "jpeg" | "webp"
+
+export type ProcessedImage = {
+  buffer: Buffer
+  mimeType: string
+  width: number
+  height: number
+  originalBytes: number
+}
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, index) => buffer[offset + index] === byte)
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.subarray(start, end).toString("latin1")
+}
+
+// Identifies the real format from the file's leading bytes, since the
+// browser-supplied content type can't be trusted
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "jpeg"
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png"
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") return "webp"
+  if (ascii(buffer, 0, 6) === "GIF87a" || ascii(buffer, 0, 6) === "GIF89a") return "gif"
+
+  // ISO base media files: a "ftyp" box whose brand names the format
+  if (ascii(buffer, 4, 8) === "ftyp") {
+    const brand = ascii(buffer, 8, 12)
+    if (brand === "avif" || brand === "avis") return "avif"
+    if (["heic", "heix", "hevc", "heim", "heis", "mif1", "msf1"].includes(brand)) return "heic"
+  }
+
+  return null
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+// IMAGE_MAX_DIMENSION caps the longest side, IMAGE_OUTPUT_FORMAT picks jpeg
+// or webp and IMAGE_QUALITY sets the encoder quality
+function loadProcessingConfig() {
+  return {
+    maxDimension: numberFromEnv("IMAGE_MAX_DIMENSION", 2048),
+    format: (process.env.IMAGE_OUTPUT_FORMAT === "webp" ? "webp" : "jpeg") as OutputFormat,
+    quality: Math.min(numberFromEnv("IMAGE_QUALITY", 85), 100),
+  }
+}
+
+// Applies the EXIF orientation, downscales and re-encodes. Sharp writes no
+// metadata unless asked to, so EXIF (including GPS), XMP and IPTC are dropped.
+export async function preprocessImage(input: Buffer): Promise<ProcessedImage> {
+  const config = loadProcessingConfig()
+
+  const pipeline = sharp(input, { failOn: "error" })
+    .rotate()
+    .resize({
+      width: config.maxDimension,
+      height: config.maxDimension,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+
+  const { data, info } = await (config.format === "webp"
+    ? pipeline.webp({ quality: config.quality })
+    : pipeline.jpeg({ quality: config.quality, mozjpeg: true })
+  ).toBuffer({ resolveWithObject: true })
+
+  return {
+    buffer: data,
+    mimeType: `image/${config.format}`,
+    width: info.width,
+    height: info.height,
+    originalBytes: input.length,
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.round(bytes / 1024)} KB`
+}
@@ -0,0 +1,88 @@
+import { waitUntil } from "@vercel/functions"
+import { randomUUID } from "crypto"
+import { recordError } from "@/lib/activity"
+import { type GenerationRequest, generateDesigns } from "@/lib/designs/generate"
+import { enqueue } from "@/lib/jobs/queue"
+import { logger } from "@/lib/logger"
+import { type GenerationJob, type JobStore, createInMemoryJobStore } from "@/lib/jobs/store"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+export type { GenerationJob, JobStore } from "@/lib/jobs/store"
+
+function getJobStore(): JobStore {
+  return singleton("jobStore", createInMemoryJobStore)
+}
+
+export function setJobStore(jobStore: JobStore) {
+  replaceSingleton("jobStore", jobStore)
+}
+
+export function getJob(id: string): Promise<GenerationJob | null> {
+  return getJobStore().get(id)
+}
+
+// Queues design generation and returns the job straight away so the client
+// can poll for progress instead of waiting on one long request. On Vercel,
+// waitUntil keeps the function running after the response until the job ends
+// (still within the route's maxDuration); elsewhere it does nothing.
+export async function startGenerationJob(request: GenerationRequest, leadId: string): Promise<GenerationJob> {
+  const now = new Date().toISOString()
+  const job: GenerationJob = {
+    id: randomUUID(),
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    leadId,
+    designs: [],
+    stats: null,
+    error: null,
+  }
+  const store = getJobStore()
+  await store.create({ ...job })
+  const log = (request.log ?? logger).child({ jobId: job.id })
+
+  const run = enqueue(async () => {
+    await store.update(job.id, (current) => {
+      current.status = "running"
+    })
+
+    try {
+      const { stats } = await generateDesigns(request, {
+        async onStart(variations) {
+          await store.update(job.id, (current) => {
+            current.designs = variations.map((variation) => ({
+              styleName: variation.name,
+              status: "pending",
+              result: null,
+            }))
+          })
+        },
+        async onDesignStarted(index) {
+          await store.update(job.id, (current) => {
+            current.designs[index].status = "running"
+          })
+        },
+        async onDesignFinished(index, design) {
+          await store.update(job.id, (current) => {
+            current.designs[index] = { styleName: design.styleName, status: design.imageStatus, result: design }
+          })
+        },
+      })
+
+      await store.update(job.id, (current) => {
+        current.status = "completed"
+        current.stats = stats
+      })
+    } catch (error) {
+      log.error("Generation job failed", { error })
+      await recordError("generation-job", error, { sessionId: request.sessionId })
+      await store.update(job.id, (current) => {
+        current.status = "failed"
+        current.error = "Design generation failed. Please try again."
+      })
+    }
+  })
+  waitUntil(run)
+
+  return job
+}
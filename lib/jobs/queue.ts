@@ -0,0 +1,33 @@
+import { logger } from "@/lib/logger"
+
+// Local in-process queue that runs background tasks a few at a time
+
+type Task = () => Promise<void>
+
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 1
+
+const pending: { task: Task; done: () => void }[] = []
+let active = 0
+
+function drain() {
+  while (active < CONCURRENCY && pending.length > 0) {
+    const { task, done } = pending.shift() as (typeof pending)[number]
+    active++
+    task()
+      .catch((error) => logger.error("Background job failed", { error }))
+      .then(() => {
+        active--
+        done()
+        drain()
+      })
+  }
+}
+
+// Settles once the task has run, including any wait behind earlier tasks;
+// it never rejects, since failures are logged here
+export function enqueue(task: Task): Promise<void> {
+  return new Promise((done) => {
+    pending.push({ task, done })
+    drain()
+  })
+}
@@ -0,0 +1,105 @@
+import type { GeneratedDesign, GenerationStats } from "@/lib/designs/generate"
+
+export type JobStatus = "queued" | "running" | "completed" | "failed"
+
+export type JobDesign = {
+  styleName: string | null
+  status: "pending" | "running" | "success" | "failed"
+  result: GeneratedDesign | null
+}
+
+export type GenerationJob = {
+  id: string
+  status: JobStatus
+  createdAt: string
+  updatedAt: string
+  leadId: string
+  designs: JobDesign[]
+  stats: GenerationStats | null
+  error: string | null
+}
+
+// Swap in a shared store with setJobStore when more than one instance serves
+// the API, so a poll can find a job started on another instance
+export interface JobStore {
+  create(job: GenerationJob): Promise<void>
+  get(id: string): Promise<GenerationJob | null>
+  // Applies the change and returns the updated job, or null if it's gone
+  update(id: string, mutate: (job: GenerationJob) => void): Promise<GenerationJob | null>
+}
+
+const JOB_TTL_MS = 24 * 60 * 60 * 1000
+
+// Jobs only exist in the instance that started them, so this suits a single
+// long-running server; serverless deployments need a shared store
+export function createInMemoryJobStore(): JobStore {
+  const jobs = new Map<string, GenerationJob>()
+
+  function sweep() {
+    const cutoff = Date.now() - JOB_TTL_MS
+    jobs.forEach((job, id) => {
+      if (Date.parse(job.updatedAt) < cutoff) jobs.delete(id)
+    })
+  }
+
+  return {
+    async create(job) {
+      sweep()
+      jobs.set(job.id, job)
+    },
+
+    async get(id) {
+      const job = jobs.get(id)
+      return job ? structuredClone(job) : null
+    },
+
+    async update(id, mutate) {
+      const job = jobs.get(id)
+      if (!job) return null
+      mutate(job)
+      job.updatedAt = new Date().toISOString()
+      return structuredClone(job)
+    },
+  }
+}
+
+// The subset of a Redis client (ioredis or node-redis v4 legacy mode) the
+// adapter needs. Each job is one JSON value that expires a day after its last
+// update.
+export interface RedisJobClient {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, mode: "PX", ttlMs: number): Promise<unknown>
+}
+
+export function createRedisJobStore(client: RedisJobClient, prefix = "job:"): JobStore {
+  // Only the instance running a job updates it, so queueing updates here is
+  // enough to keep them from overwriting each other
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read(id: string): Promise<GenerationJob | null> {
+    const value = await client.get(prefix + id)
+    return value ? (JSON.parse(value) as GenerationJob) : null
+  }
+
+  async function write(job: GenerationJob) {
+    await client.set(prefix + job.id, JSON.stringify(job), "PX", JOB_TTL_MS)
+  }
+
+  return {
+    create: write,
+    get: read,
+
+    update(id, mutate) {
+      const run = queue.then(async () => {
+        const job = await read(id)
+        if (!job) return null
+        mutate(job)
+        job.updatedAt = new Date().toISOString()
+        await write(job)
+        return job
+      })
+      queue = run.catch(() => undefined)
+      return run
+    },
+  }
+}
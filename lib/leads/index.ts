@@ -0,0 +1,68 @@
+import type { BrandProfile } from "@/lib/brands"
+import { type Lead, type LeadStore, createFileLeadStore } from "@/lib/leads/store"
+import { queueLeadWebhook, startLeadWebhooks } from "@/lib/leads/webhook"
+import { logger } from "@/lib/logger"
+import type { Contact, Preferences } from "@/lib/preferences"
+import type { RoomType } from "@/lib/rooms"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+export type { Lead, LeadStore } from "@/lib/leads/store"
+
+// Shared so every route writes through the same queued file
+export function getLeadStore(): LeadStore {
+  return singleton("leadStore", () => createFileLeadStore())
+}
+
+export function setLeadStore(leadStore: LeadStore) {
+  replaceSingleton("leadStore", leadStore)
+}
+
+// Newest first; matches the query against name, emails, phone and ID
+export async function searchLeads(query = ""): Promise<Lead[]> {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean)
+  const leads = await getLeadStore().list()
+  return leads
+    .filter((lead) => {
+      const haystack = [lead.id, lead.name, lead.email, ...(lead.otherEmails ?? []), lead.phone ?? ""]
+        .join(" ")
+        .toLowerCase()
+      return terms.every((term) => haystack.includes(term))
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+// Saves the lead (deduplicated by email and phone) and forwards it to the CRM
+export async function captureLead(
+  contact: Contact,
+  preferences: Preferences,
+  roomType: RoomType,
+  brand: BrandProfile,
+): Promise<Lead> {
+  const { lead, created, phoneOnly } = await getLeadStore().upsert({
+    name: contact.name,
+    email: contact.email,
+    phone: contact.phone || null,
+    source: brand.productName,
+    preferences: {
+      room: roomType,
+      style: preferences.kitchenStyle,
+      budget: preferences.budgetRange,
+      cooking: preferences.cookingHabits,
+      family: preferences.familySize,
+      storage: preferences.storageNeeds,
+    },
+  })
+
+  logger.info(created ? "Lead captured" : "Lead updated", { leadId: lead.id })
+  if (phoneOnly) {
+    logger.warn("Lead matched by phone only; kept the new email aside", { leadId: lead.id })
+  }
+
+  // Queued before responding so the delivery survives the process being
+  // frozen or restarted; sending and retries run after the response
+  if (await queueLeadWebhook(lead, created ? "lead.created" : "lead.updated")) {
+    startLeadWebhooks()
+  }
+
+  return lead
+}
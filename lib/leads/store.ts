@@ -0,0 +1,127 @@
+import { randomUUID } from "crypto"
+import { createJsonFile, dataPath } from "@/lib/storage/json-file"
+
+export type LeadPreferences = {
+  room: string
+  style: string
+  budget: string
+  cooking: string
+  family: string
+  storage: string
+}
+
+// One entry per generate call from the same person
+export type LeadActivity = {
+  timestamp: string
+  preferences: LeadPreferences
+}
+
+export type Lead = {
+  id: string
+  createdAt: string
+  updatedAt: string
+  name: string
+  email: string
+  phone: string | null
+  // Other addresses sent in with this lead's phone number. Anyone can type a
+  // phone number, so these are kept for the sales team but never replace the
+  // lead's own email or name.
+  otherEmails?: string[]
+  source: string
+  preferences: LeadPreferences
+  activity: LeadActivity[]
+}
+
+export type LeadInput = {
+  name: string
+  email: string
+  phone: string | null
+  source: string
+  preferences: LeadPreferences
+}
+
+export interface LeadStore {
+  // Saves a new lead or attaches the input to an existing one with the same
+  // email or phone number. phoneOnly is set when only the phone matched.
+  upsert(input: LeadInput): Promise<{ lead: Lead; created: boolean; phoneOnly: boolean }>
+  get(id: string): Promise<Lead | null>
+  list(): Promise<Lead[]>
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Compares North American numbers regardless of formatting or a leading 1
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "")
+  return digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits
+}
+
+function isSameEmail(lead: Lead, input: LeadInput): boolean {
+  return normalizeEmail(lead.email) === normalizeEmail(input.email)
+}
+
+function isSamePhone(lead: Lead, input: LeadInput): boolean {
+  return Boolean(lead.phone && input.phone && normalizePhone(lead.phone) === normalizePhone(input.phone))
+}
+
+export function createFileLeadStore(filePath = dataPath("leads.json")): LeadStore {
+  const file = createJsonFile<Lead[]>(filePath, () => [])
+
+  return {
+    upsert(input) {
+      return file.update((leads) => {
+        const now = new Date().toISOString()
+        const activity = { timestamp: now, preferences: input.preferences }
+        const byEmail = leads.find((lead) => isSameEmail(lead, input))
+
+        if (byEmail) {
+          byEmail.name = input.name || byEmail.name
+          byEmail.phone = byEmail.phone || input.phone
+          byEmail.preferences = input.preferences
+          byEmail.activity.push(activity)
+          byEmail.updatedAt = now
+          return { lead: byEmail, created: false, phoneOnly: false }
+        }
+
+        // A phone match alone only adds to the history; the name, email and
+        // current preferences stay as the lead's owner left them
+        const byPhone = leads.find((lead) => isSamePhone(lead, input))
+        if (byPhone) {
+          const email = normalizeEmail(input.email)
+          const otherEmails = byPhone.otherEmails ?? []
+          if (!otherEmails.includes(email)) {
+            byPhone.otherEmails = [...otherEmails, email]
+          }
+          byPhone.activity.push(activity)
+          byPhone.updatedAt = now
+          return { lead: byPhone, created: false, phoneOnly: true }
+        }
+
+        const lead: Lead = {
+          id: randomUUID(),
+          createdAt: now,
+          updatedAt: now,
+          name: input.name,
+          email: normalizeEmail(input.email),
+          phone: input.phone,
+          source: input.source,
+          preferences: input.preferences,
+          activity: [activity],
+        }
+        leads.push(lead)
+        return { lead, created: true, phoneOnly: false }
+      })
+    },
+
+    async get(id) {
+      const leads = await file.read()
+      return leads.find((lead) => lead.id === id) || null
+    },
+
+    async list() {
+      return file.read()
+    },
+  }
+}
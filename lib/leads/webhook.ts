@@ -0,0 +1,223 @@
+import { createHmac, randomUUID } from "crypto"
+import type { Lead } from "@/lib/leads/store"
+import { logger } from "@/lib/logger"
+import { type JsonFile, createJsonFile, dataPath } from "@/lib/storage/json-file"
+import { singleton } from "@/lib/storage/singleton"
+
+export type LeadEvent = "lead.created" | "lead.updated"
+
+// A delivery waiting to be sent. Kept on disk so retries survive the request
+// that queued them being frozen or the process restarting.
+type PendingDelivery = {
+  id: string
+  queuedAt: string
+  event: LeadEvent
+  leadId: string
+  // Counted when an attempt starts, so attempts that never finish still count
+  attempts: number
+  nextAttemptAt: number
+  lastError: string | null
+  payload: string
+}
+
+export type DeadLetter = {
+  failedAt: string
+  event: LeadEvent
+  leadId: string
+  attempts: number
+  lastError: string
+  payload: string
+}
+
+const MAX_ATTEMPTS = Number(process.env.CRM_WEBHOOK_MAX_ATTEMPTS) || 5
+const BASE_DELAY_MS = Number(process.env.CRM_WEBHOOK_BASE_DELAY_MS) || 1000
+const REQUEST_TIMEOUT_MS = 10 * 1000
+// A claimed delivery is retried by the next run once this passes without an
+// outcome, e.g. when the process was frozen mid-attempt
+const CLAIM_MS = 60 * 1000
+
+// Shared so every route queues through the same files
+function getOutbox(): JsonFile<PendingDelivery[]> {
+  return singleton("crmOutbox", () => createJsonFile<PendingDelivery[]>(dataPath("crm-outbox.json"), () => []))
+}
+
+function getDeadLetters(): JsonFile<DeadLetter[]> {
+  return singleton("crmDeadLetters", () => createJsonFile<DeadLetter[]>(dataPath("crm-dead-letters.json"), () => []))
+}
+
+// The CRM verifies `X-Signature` by computing the same HMAC over
+// "<timestamp>.<body>" with the shared secret
+export function signPayload(body: string, timestamp: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+}
+
+async function postWebhook(url: string, body: string, secret: string | undefined) {
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Timestamp": timestamp,
+  }
+  if (secret) {
+    headers["X-Signature"] = signPayload(body, timestamp, secret)
+  }
+
+  const response = await fetch(url, { method: "POST", headers, body, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`CRM webhook responded with ${response.status}`)
+  }
+}
+
+// Saves the delivery for processLeadWebhooks to send. Returns false when no
+// CRM is configured.
+export async function queueLeadWebhook(lead: Lead, event: LeadEvent): Promise<boolean> {
+  if (!process.env.CRM_WEBHOOK_URL) return false
+
+  await getOutbox().update((deliveries) => {
+    deliveries.push({
+      id: randomUUID(),
+      queuedAt: new Date().toISOString(),
+      event,
+      leadId: lead.id,
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+      payload: JSON.stringify({ event, lead }),
+    })
+  })
+  return true
+}
+
+function retryDelay(attempts: number): number {
+  return BASE_DELAY_MS * 2 ** (attempts - 1) + Math.random() * BASE_DELAY_MS
+}
+
+function toDeadLetter(delivery: PendingDelivery): DeadLetter {
+  return {
+    failedAt: new Date().toISOString(),
+    event: delivery.event,
+    leadId: delivery.leadId,
+    attempts: delivery.attempts,
+    lastError: delivery.lastError ?? "No outcome recorded for the last attempt",
+    payload: delivery.payload,
+  }
+}
+
+async function addDeadLetters(expired: DeadLetter[]) {
+  if (expired.length === 0) return
+  await getDeadLetters().update((letters) => {
+    letters.push(...expired)
+  })
+  for (const letter of expired) {
+    logger.error("CRM webhook failed; added to dead-letter list", { leadId: letter.leadId })
+  }
+}
+
+export type WebhookRun = {
+  sent: number
+  failed: number
+  waiting: number
+  // When the earliest waiting delivery is due, or null when none are
+  nextAttemptAt: number | null
+}
+
+// Sends every delivery that is due, retrying with exponential backoff. Ones
+// that fail MAX_ATTEMPTS times move to the dead-letter list for replay.
+export async function processLeadWebhooks(now = Date.now()): Promise<WebhookRun> {
+  const url = process.env.CRM_WEBHOOK_URL
+  if (!url) return { sent: 0, failed: 0, waiting: 0, nextAttemptAt: null }
+
+  // Claim what's due in one update so overlapping runs don't send it twice.
+  // A delivery still due after its last attempt was claimed but never
+  // reported back, so it is dead-lettered rather than tried again.
+  const claimed: PendingDelivery[] = []
+  const abandoned: DeadLetter[] = []
+  await getOutbox().update((deliveries) => {
+    const kept = deliveries.filter((delivery) => {
+      if (delivery.nextAttemptAt > now) return true
+      if (delivery.attempts >= MAX_ATTEMPTS) {
+        abandoned.push(toDeadLetter(delivery))
+        return false
+      }
+      delivery.attempts++
+      delivery.nextAttemptAt = now + CLAIM_MS
+      claimed.push({ ...delivery })
+      return true
+    })
+    deliveries.splice(0, deliveries.length, ...kept)
+  })
+  await addDeadLetters(abandoned)
+
+  const sent = new Set<string>()
+  const failed = new Map<string, string>()
+  for (const delivery of claimed) {
+    try {
+      await postWebhook(url, delivery.payload, process.env.CRM_WEBHOOK_SECRET)
+      sent.add(delivery.id)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      failed.set(delivery.id, message)
+      logger.warn("CRM webhook attempt failed", {
+        leadId: delivery.leadId,
+        attempt: delivery.attempts,
+        maxAttempts: MAX_ATTEMPTS,
+        error: message,
+      })
+    }
+  }
+
+  const expired: DeadLetter[] = []
+  const waiting = await getOutbox().update((deliveries) => {
+    const kept = deliveries.filter((delivery) => {
+      if (sent.has(delivery.id)) return false
+      const error = failed.get(delivery.id)
+      if (error === undefined) return true
+
+      delivery.lastError = error
+      if (delivery.attempts >= MAX_ATTEMPTS) {
+        expired.push(toDeadLetter(delivery))
+        return false
+      }
+      delivery.nextAttemptAt = Date.now() + retryDelay(delivery.attempts)
+      return true
+    })
+    deliveries.splice(0, deliveries.length, ...kept)
+    return kept.map((delivery) => delivery.nextAttemptAt)
+  })
+  await addDeadLetters(expired)
+
+  return {
+    sent: sent.size,
+    failed: failed.size,
+    waiting: waiting.length,
+    nextAttemptAt: waiting.length > 0 ? Math.min(...waiting) : null,
+  }
+}
+
+// Works through the outbox in the background of a long-running process,
+// waking again whenever a retry is due. One loop runs per process; on
+// serverless hosts the cron route picks up whatever a frozen loop leaves.
+export function startLeadWebhooks() {
+  const loop = singleton("crmWebhookLoop", () => ({ running: false }))
+  if (loop.running) return
+  loop.running = true
+
+  const run = () => {
+    processLeadWebhooks()
+      .then(({ nextAttemptAt }) => {
+        if (nextAttemptAt === null) {
+          loop.running = false
+          return
+        }
+        setTimeout(run, Math.max(nextAttemptAt - Date.now(), BASE_DELAY_MS)).unref()
+      })
+      .catch((error) => {
+        loop.running = false
+        logger.error("CRM webhook error", { error })
+      })
+  }
+  run()
+}
+
+export async function listDeadLetters(): Promise<DeadLetter[]> {
+  return getDeadLetters().read()
+}
@@ -0,0 +1,73 @@
+// Structured JSON logging: one object per line, so logs can be queried.
+// Customer details are redacted before anything is written.
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export type LogFields = Record<string, unknown>
+
+export type Logger = {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // A logger that adds these fields to every line, e.g. the request ID
+  child(fields: LogFields): Logger
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// Fields that hold personal details, whatever object they appear in
+const PII_KEYS = /^(name|email|phone|contact|address|firstName|lastName|fullName)$/i
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g
+const PHONE_PATTERN = /\b(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g
+
+function minimumLevel(): number {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined
+  return LEVELS[level && level in LEVELS ? level : "info"]
+}
+
+// Free text such as error messages can still carry an email or phone number
+export function redactText(text: string): string {
+  return text.replace(EMAIL_PATTERN, "[email]").replace(PHONE_PATTERN, "[phone]")
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactText(value)
+  if (value === null || typeof value !== "object" || depth > 6) return value
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message), stack: value.stack && redactText(value.stack) }
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1))
+
+  const fields = value as LogFields
+  const result: LogFields = {}
+  for (const key of Object.keys(fields)) {
+    result[key] = PII_KEYS.test(key) ? "[redacted]" : redact(fields[key], depth + 1)
+  }
+  return result
+}
+
+function createLogger(bound: LogFields): Logger {
+  function write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LEVELS[level] < minimumLevel()) return
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: redactText(message),
+      ...(redact({ ...bound, ...fields }) as LogFields),
+    })
+    if (level === "error") console.error(line)
+    else if (level === "warn") console.warn(line)
+    else console.log(line)
+  }
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (fields) => createLogger({ ...bound, ...fields }),
+  }
+}
+
+export const logger = createLogger({})
@@ -0,0 +1,104 @@
+import { singleton } from "@/lib/storage/singleton"
+
+// In-process Prometheus metrics, served in the text format by /api/metrics
+
+type Labels = Record<string, string>
+
+type CounterSeries = { labels: Labels; value: number }
+type HistogramSeries = { labels: Labels; buckets: number[]; sum: number; count: number }
+
+type Metric =
+  | { type: "counter"; help: string; series: Map<string, CounterSeries> }
+  | { type: "histogram"; help: string; bounds: number[]; series: Map<string, HistogramSeries> }
+
+// Shared across route bundles so the endpoint sees every route's metrics
+const registry = singleton("metrics", () => new Map<string, Metric>())
+
+// Seconds, suited to both quick requests and multi-image generations
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, labels[key]]),
+  )
+}
+
+export function counter(name: string, help: string) {
+  return {
+    inc(labels: Labels = {}, amount = 1) {
+      let metric = registry.get(name)
+      if (!metric) {
+        metric = { type: "counter", help, series: new Map() }
+        registry.set(name, metric)
+      }
+      if (metric.type !== "counter") return
+      const key = seriesKey(labels)
+      const series = metric.series.get(key) || { labels, value: 0 }
+      series.value += amount
+      metric.series.set(key, series)
+    },
+  }
+}
+
+export function histogram(name: string, help: string, bounds = DEFAULT_BUCKETS) {
+  return {
+    observe(labels: Labels, value: number) {
+      let metric = registry.get(name)
+      if (!metric) {
+        metric = { type: "histogram", help, bounds, series: new Map() }
+        registry.set(name, metric)
+      }
+      if (metric.type !== "histogram") return
+      const key = seriesKey(labels)
+      const series = metric.series.get(key) || { labels, buckets: metric.bounds.map(() => 0), sum: 0, count: 0 }
+      metric.bounds.forEach((bound, index) => {
+        if (value <= bound) series.buckets[index]++
+      })
+      series.sum += value
+      series.count++
+      metric.series.set(key, series)
+    },
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels).map(
+    (key) => `${key}="${labels[key].replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  )
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+export function renderMetrics(): string {
+  const lines: string[] = []
+  registry.forEach((metric, name) => {
+    lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`)
+    if (metric.type === "counter") {
+      metric.series.forEach((series) => lines.push(`${name}${formatLabels(series.labels)} ${series.value}`))
+      return
+    }
+    metric.series.forEach((series) => {
+      metric.bounds.forEach((bound, index) => {
+        lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.buckets[index]}`)
+      })
+      lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`)
+      lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`)
+      lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`)
+    })
+  })
+  return lines.join("\n") + "\n"
+}
+
+// The metrics the app reports, defined in one place so names stay consistent
+
+export const httpRequests = counter("http_requests_total", "API responses by route, method and status code")
+export const httpDuration = histogram("http_request_duration_seconds", "API response latency by route and method")
+export const providerDuration = histogram(
+  "ai_provider_call_duration_seconds",
+  "AI provider call latency by operation and outcome",
+)
+export const analysesTotal = counter("analyses_total", "Completed space analyses by room type and cache use")
+export const generationsTotal = counter("generations_total", "Completed design generations by room type")
+export const imagesTotal = counter("images_total", "Design renders by outcome (generated, cached or failed)")
+export const errorsTotal = counter("errors_total", "Recorded errors by source")
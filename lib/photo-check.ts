@@ -0,0 +1,125 @@
+import { z } from "zod"
+import type { AIProvider } from "@/lib/ai"
+import { cacheKey, hashBuffer, withCache } from "@/lib/cache"
+import { type Locale, translate } from "@/lib/i18n"
+import { type UploadedPhoto, photoDataUrl, photoName } from "@/lib/photos"
+import { ROOM_PROFILES, type RoomType } from "@/lib/rooms"
+import { describePhoto } from "@/lib/space-analysis"
+
+export const PHOTO_VERDICTS = ["usable", "wrong-subject", "poor-quality", "unsafe"] as const
+
+export type PhotoVerdict = (typeof PHOTO_VERDICTS)[number]
+
+const photoCheckSchema = z.object({
+  photos: z.array(
+    z.object({
+      photo: z.number().int().positive(),
+      verdict: z.enum(PHOTO_VERDICTS),
+      reason: z.string(),
+    }),
+  ),
+})
+
+export type RejectedPhoto = {
+  photo: number
+  label: string | null
+  verdict: Exclude<PhotoVerdict, "usable">
+  message: string
+}
+
+export type PhotoCheckResult =
+  | { success: true }
+  | { success: false; status: 422; error: string; rejectedPhotos: RejectedPhoto[] }
+  | { success: false; status: 502; error: string; details: string[] }
+
+function createPhotoCheckPrompt(roomType: RoomType, photoCount: number): string {
+  const { noun } = ROOM_PROFILES[roomType]
+
+  return `You screen photos uploaded to a ${noun} design tool before they are analyzed. Classify each of the ${photoCount} photo(s) with one verdict:
+
+- "usable": a real photo of a ${noun} (or the room where one will go) that is clear enough to design from
+- "wrong-subject": people, selfies, pets, screenshots, documents, memes, drawings, outdoor scenes or a different kind of room
+- "poor-quality": the right room, but too dark, blurry or cropped to see the walls and layout
+- "unsafe": explicit, violent or otherwise inappropriate content
+
+Respond with a single JSON object and nothing else:
+{ "photos": [{ "photo": number (1 for the first photo), "verdict": string, "reason": string (one short sentence) }] }`
+}
+
+function checkFailed(locale: Locale, details: string[]): PhotoCheckResult {
+  return { success: false, status: 502, error: translate(locale, "photoCheck.failed"), details }
+}
+
+function parseVerdicts(
+  text: string,
+): { success: true; data: z.infer<typeof photoCheckSchema> } | { success: false; errors: string[] } {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { success: false, errors: ["Response was not valid JSON"] }
+  }
+
+  const result = photoCheckSchema.safeParse(json)
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    }
+  }
+  return { success: true, data: result.data }
+}
+
+// Sorts each upload before anything expensive runs, so selfies, screenshots
+// and unsafe images never reach the analysis or the renders
+export async function checkPhotos(
+  provider: AIProvider,
+  roomType: RoomType,
+  photos: UploadedPhoto[],
+  locale: Locale,
+): Promise<PhotoCheckResult> {
+  const prompt = createPhotoCheckPrompt(roomType, photos.length)
+  const images = photos.map((photo, index) => ({ url: photoDataUrl(photo), caption: describePhoto(index, photo.label) }))
+
+  // A retry of the same photos reuses the verdicts instead of screening again
+  const { value: text } = await withCache(
+    cacheKey("photo-check", provider.name, prompt, images.map((image, index) => [hashBuffer(photos[index].buffer), image.caption])),
+    async () => (await provider.screenImages({ prompt, images, roomType })).text,
+    { shouldCache: (text) => parseVerdicts(text).success },
+  )
+
+  const result = parseVerdicts(text)
+  if (!result.success) {
+    return checkFailed(locale, result.errors)
+  }
+
+  // Every photo must be accounted for; an unchecked photo isn't trusted
+  const verdicts = new Map(result.data.photos.map((entry) => [entry.photo, entry.verdict]))
+  const room = ROOM_PROFILES[roomType].copy[locale].noun
+  const rejectedPhotos: RejectedPhoto[] = []
+  for (let index = 0; index < photos.length; index++) {
+    const verdict = verdicts.get(index + 1)
+    if (!verdict) {
+      return checkFailed(locale, [`photos: No verdict for photo ${index + 1}`])
+    }
+    if (verdict !== "usable") {
+      rejectedPhotos.push({
+        photo: index + 1,
+        label: photos[index].label,
+        verdict,
+        message: translate(locale, `photoCheck.${verdict}`, { room }),
+      })
+    }
+  }
+
+  if (rejectedPhotos.length === 0) {
+    return { success: true }
+  }
+
+  // Lead with the first problem; every rejected photo is listed alongside
+  const [first] = rejectedPhotos
+  const photo = photoName(locale, first.photo - 1, first.label)
+  const error =
+    photos.length === 1 ? first.message : translate(locale, "photo.problem", { photo, message: first.message })
+  return { success: false, status: 422, error, rejectedPhotos }
+}
@@ -0,0 +1,117 @@
+import { z } from "zod"
+import { type Locale, translate } from "@/lib/i18n"
+import { type ProcessedImage, detectImageFormat, formatBytes, preprocessImage } from "@/lib/image-processing"
+import { type Logger, logger } from "@/lib/logger"
+import { parseJsonField } from "@/lib/preferences"
+
+export const MAX_PHOTOS = 6
+const MAX_PHOTO_MB = 20
+const MAX_PHOTO_BYTES = MAX_PHOTO_MB * 1024 * 1024
+
+export type UploadedPhoto = {
+  buffer: Buffer
+  mimeType: string
+  // Where the photo was taken from, e.g. "north wall" or "from doorway"
+  label: string | null
+}
+
+export type PhotoUploadResult =
+  | { success: true; photos: UploadedPhoto[] }
+  | { success: false; error: string; details?: string[] }
+
+const photoLabelsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .max(80)
+      .nullable()
+      .transform((label) => label || null),
+  )
+  .max(MAX_PHOTOS)
+
+// How a photo is named in messages to the customer, like describePhoto
+// does for prompts
+export function photoName(locale: Locale, index: number, label: string | null): string {
+  return label
+    ? translate(locale, "photo.nameWithLabel", { number: index + 1, label })
+    : translate(locale, "photo.name", { number: index + 1 })
+}
+
+// Reads every `image` field, plus `imageLabels`: an optional JSON array of
+// labels in the same order as the images. Each photo gets the same checks and
+// is downscaled and re-encoded without metadata before it goes anywhere.
+export async function readPhotos(
+  formData: FormData,
+  locale: Locale,
+  log: Logger = logger,
+): Promise<PhotoUploadResult> {
+  const files = formData.getAll("image").filter((entry): entry is File => typeof entry !== "string")
+  if (files.length === 0) {
+    return { success: false, error: translate(locale, "photo.missing") }
+  }
+  if (files.length > MAX_PHOTOS) {
+    return { success: false, error: translate(locale, "photo.tooMany", { max: MAX_PHOTOS }) }
+  }
+
+  let labels: (string | null)[] = []
+  if (formData.get("imageLabels")) {
+    const result = parseJsonField(formData, "imageLabels", photoLabelsSchema)
+    if (!result.success) {
+      return { success: false, error: translate(locale, "photo.invalidLabels"), details: result.errors }
+    }
+    labels = result.data
+  }
+
+  const photos: UploadedPhoto[] = []
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index]
+    const label = labels[index] ?? null
+    // Single uploads keep the plain messages; otherwise say which photo
+    const reject = (message: string): PhotoUploadResult => ({
+      success: false,
+      error:
+        files.length === 1
+          ? message
+          : translate(locale, "photo.problem", { photo: photoName(locale, index, label), message }),
+    })
+
+    if (file.size > MAX_PHOTO_BYTES) {
+      return reject(translate(locale, "photo.tooLarge", { max: MAX_PHOTO_MB }))
+    }
+
+    const original = Buffer.from(await file.arrayBuffer())
+    const format = detectImageFormat(original)
+    if (format === "heic") {
+      return reject(translate(locale, "photo.heic"))
+    }
+    if (!format) {
+      return reject(translate(locale, "photo.invalid"))
+    }
+
+    let processed: ProcessedImage
+    try {
+      processed = await preprocessImage(original)
+    } catch (error) {
+      log.warn("Could not decode upload", { photo: index + 1, format, error })
+      return reject(translate(locale, "photo.unreadable"))
+    }
+
+    log.info("Photo preprocessed", {
+      photo: index + 1,
+      format,
+      originalSize: formatBytes(processed.originalBytes),
+      processedSize: formatBytes(processed.buffer.length),
+      mimeType: processed.mimeType,
+      width: processed.width,
+      height: processed.height,
+    })
+    photos.push({ buffer: processed.buffer, mimeType: processed.mimeType, label })
+  }
+
+  return { success: true, photos }
+}
+
+export function photoDataUrl(photo: UploadedPhoto): string {
+  return `data:${photo.mimeType};base64,${photo.buffer.toString("base64")}`
+}
@@ -0,0 +1,107 @@
+import { z } from "zod"
+import { type DesignCatalog, storageOptionsFor } from "@/lib/catalog"
+import { COOKING_HABITS, type CookingHabit, DEFAULT_ROOM_TYPE, type RoomType } from "@/lib/rooms"
+
+export const BUDGET_RANGES = {
+  "25k-40k": { min: 25000, max: 40000 },
+  "40k-60k": { min: 40000, max: 60000 },
+  "60k-80k": { min: 60000, max: 80000 },
+  "80k-100k": { min: 80000, max: 100000 },
+  "100k-plus": { min: 100000, max: 150000 },
+} as const
+
+export type BudgetRange = keyof typeof BUDGET_RANGES
+
+const BUDGET_RANGE_KEYS = Object.keys(BUDGET_RANGES) as [BudgetRange, ...BudgetRange[]]
+
+export type Preferences = {
+  // Cabinet style for any room type; named for the original kitchen form
+  kitchenStyle: string
+  colorPreference: string
+  storageNeeds: string
+  // Empty for rooms other than kitchens
+  cookingHabits: CookingHabit | ""
+  familySize: string
+  budgetRange: BudgetRange
+}
+
+export type Contact = {
+  name: string
+  email: string
+  phone?: string
+}
+
+// Accepts North American numbers in any common format, e.g. (403) 555-0123
+const PHONE_PATTERN = /^(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}$/
+
+export const contactSchema = z.object({
+  // Names end up in calendar invites and CRM payloads, so no line breaks
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(200)
+    .regex(/^[^\u0000-\u001f\u007f]*$/, "Name can't contain line breaks or control characters"),
+  email: z.string().trim().email("Enter a valid email address"),
+  phone: z
+    .string()
+    .trim()
+    .regex(PHONE_PATTERN, "Enter a valid phone number")
+    .optional()
+    .or(z.literal("").transform(() => undefined)),
+})
+
+// Style, palette and storage options come from the design catalog, so the
+// schema is built from the current catalog
+function oneOf(keys: string[]) {
+  return z.string().refine((value) => keys.includes(value), {
+    message: `Expected one of: ${keys.join(", ")}`,
+  })
+}
+
+// Storage options depend on the room, and cooking habits only matter in
+// kitchens
+export function createPreferencesSchema(
+  catalog: DesignCatalog,
+  roomType: RoomType = DEFAULT_ROOM_TYPE,
+): z.ZodType<Preferences, z.ZodTypeDef, unknown> {
+  return z.object({
+    kitchenStyle: oneOf(Object.keys(catalog.cabinetStyles)),
+    colorPreference: oneOf(Object.keys(catalog.colorPalettes)),
+    storageNeeds: oneOf(storageOptionsFor(catalog, roomType)),
+    cookingHabits: roomType === "kitchen" ? z.enum(COOKING_HABITS) : z.unknown().transform((): "" => ""),
+    familySize: z.string().trim().min(1, "Family size is required"),
+    budgetRange: z.enum(BUDGET_RANGE_KEYS),
+  })
+}
+
+export type FieldValidationResult<T> = { success: true; data: T } | { success: false; errors: string[] }
+
+// Parses a JSON form field and validates it, prefixing errors with the field
+// name so each bad value is reported as e.g. "contact.email: ..."
+export function parseJsonField<T>(
+  formData: FormData,
+  field: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): FieldValidationResult<T> {
+  const raw = formData.get(field)
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { success: false, errors: [`${field}: Required`] }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    return { success: false, errors: [`${field}: Must be valid JSON`] }
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${[field, ...issue.path].join(".")}: ${issue.message}`),
+    }
+  }
+  return { success: true, data: result.data }
+}
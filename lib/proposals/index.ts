@@ -0,0 +1,70 @@
+import type { BrandProfile } from "@/lib/brands"
+import type { GeneratedDesign } from "@/lib/designs/generate"
+import { DEFAULT_LOCALE, type Locale, translate } from "@/lib/i18n"
+import { getLeadStore } from "@/lib/leads"
+import type { ProposalRequest } from "@/lib/proposals/schema"
+import type { RoomType } from "@/lib/rooms"
+import { getSession, getSessionBrand } from "@/lib/sessions"
+import type { SpaceAnalysis } from "@/lib/space-analysis"
+
+// The most designs one proposal will hold
+const MAX_DESIGNS = 10
+
+export type Proposal = {
+  contact: { name: string; email: string; phone: string | null }
+  locale: Locale
+  roomType: RoomType
+  spaceAnalysis: SpaceAnalysis | null
+  designs: GeneratedDesign[]
+}
+
+export type ProposalResult =
+  | { success: true; proposal: Proposal; brand: BrandProfile }
+  | { success: false; status: number; error: string }
+
+// Gathers a proposal from the session and its lead, in the brand and language
+// the designs were written for. The PDF carries the customer's contact
+// details, so only the client that created the session gets one.
+export async function loadProposal(request: ProposalRequest, clientId: string): Promise<ProposalResult> {
+  const session = await getSession(request.sessionId)
+  if (!session || session.clientId !== clientId) {
+    return { success: false, status: 404, error: translate(request.locale ?? DEFAULT_LOCALE, "session.notFound") }
+  }
+  const locale = session.locale ?? DEFAULT_LOCALE
+
+  // Older sessions didn't keep the contact and fall back to the lead
+  const lead = session.contact ? null : await getLeadStore().get(session.leadId)
+  const contact = session.contact ?? (lead && { name: lead.name, email: lead.email, phone: lead.phone })
+  if (!contact) {
+    return { success: false, status: 404, error: translate(locale, "session.contactMissing") }
+  }
+
+  let designs: GeneratedDesign[]
+  if (request.designIds) {
+    designs = []
+    for (const designId of request.designIds) {
+      const design = session.designs.find((candidate) => candidate.designId === designId)
+      if (!design) {
+        return { success: false, status: 404, error: translate(locale, "session.designNotFoundId", { id: designId }) }
+      }
+      designs.push(design)
+    }
+  } else {
+    designs = session.designs.slice(0, MAX_DESIGNS)
+  }
+  if (designs.length === 0) {
+    return { success: false, status: 422, error: translate(locale, "session.noDesigns") }
+  }
+
+  return {
+    success: true,
+    brand: await getSessionBrand(session),
+    proposal: {
+      contact,
+      locale,
+      roomType: session.roomType,
+      spaceAnalysis: session.spaceAnalysis,
+      designs,
+    },
+  }
+}
@@ -0,0 +1,267 @@
+import { type PDFFont, type PDFImage, PDFDocument, type PDFPage, StandardFonts, rgb } from "pdf-lib"
+import type { BrandProfile } from "@/lib/brands"
+import type { CostEstimate } from "@/lib/designs/cost"
+import type { GeneratedDesign } from "@/lib/designs/generate"
+import { type Locale, type MessageKey, formatCurrency, formatDate, formatNumber, translate } from "@/lib/i18n"
+import type { Proposal } from "@/lib/proposals"
+import { getRender } from "@/lib/renders"
+import { ROOM_PROFILES } from "@/lib/rooms"
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const BRAND_COLOR = rgb(0.29, 0.2, 0.13)
+const TEXT_COLOR = rgb(0.15, 0.15, 0.15)
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45)
+
+type Fonts = { regular: PDFFont; bold: PDFFont }
+
+type TextOptions = { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; indent?: number }
+
+// Standard fonts only cover WinAnsi, so anything else is replaced. French
+// number formatting uses narrow no-break spaces, which become plain ones.
+function cleanText(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet())
+  return Array.from(text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\u202f/g, " "))
+    .map((char) => (supported.has(char.codePointAt(0) as number) ? char : "?"))
+    .join("")
+}
+
+function wrapText(font: PDFFont, text: string, size: number, width: number): string[] {
+  const lines: string[] = []
+  let line = ""
+  for (const word of cleanText(font, text).split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+// Writes flowing content top to bottom, starting a new page when one fills up
+function createPageWriter(doc: PDFDocument, fonts: Fonts, brandName: string) {
+  let page: PDFPage
+  let y = 0
+
+  function newPage() {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 36, width: PAGE_WIDTH, height: 36, color: BRAND_COLOR })
+    page.drawText(cleanText(fonts.bold, brandName.toUpperCase()), {
+      x: MARGIN,
+      y: PAGE_HEIGHT - 24,
+      size: 11,
+      font: fonts.bold,
+      color: rgb(1, 1, 1),
+    })
+    y = PAGE_HEIGHT - 36 - MARGIN / 2
+  }
+
+  function ensureSpace(height: number) {
+    if (y - height < MARGIN) newPage()
+  }
+
+  function gap(height: number) {
+    y -= height
+  }
+
+  function text(value: string, options: TextOptions = {}) {
+    const size = options.size ?? 10
+    const font = options.bold ? fonts.bold : fonts.regular
+    const indent = options.indent ?? 0
+    for (const line of wrapText(font, value, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(size * 1.4)
+      y -= size * 1.4
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color: options.color ?? TEXT_COLOR })
+    }
+  }
+
+  newPage()
+
+  return {
+    newPage,
+    gap,
+    text,
+
+    heading(value: string, size = 14) {
+      gap(size * 0.6)
+      text(value, { size, bold: true, color: BRAND_COLOR })
+      gap(2)
+    },
+
+    label(name: string, value: string) {
+      text(name, { bold: true })
+      text(value, { indent: 12 })
+    },
+
+    bullets(name: string, items: string[]) {
+      if (items.length === 0) return
+      text(name, { bold: true })
+      for (const item of items) {
+        text(`- ${item}`, { indent: 12 })
+      }
+    },
+
+    image(image: PDFImage, maxHeight: number) {
+      const scale = Math.min(CONTENT_WIDTH / image.width, maxHeight / image.height)
+      const width = image.width * scale
+      const height = image.height * scale
+      ensureSpace(height + 8)
+      y -= height + 8
+      page.drawImage(image, { x: MARGIN + (CONTENT_WIDTH - width) / 2, y, width, height })
+    },
+  }
+}
+
+type PageWriter = ReturnType<typeof createPageWriter>
+
+async function embedRender(doc: PDFDocument, renderId: string | undefined): Promise<PDFImage | null> {
+  if (!renderId) return null
+  const render = await getRender(renderId)
+  if (!render) return null
+
+  if (render.contentType === "image/png") return doc.embedPng(render.data)
+  if (render.contentType === "image/jpeg") return doc.embedJpg(render.data)
+  return null
+}
+
+function writeSpaceSummary(
+  writer: PageWriter,
+  spaceAnalysis: NonNullable<Proposal["spaceAnalysis"]>,
+  locale: Locale,
+) {
+  const { roomDimensions, ceilingHeight } = spaceAnalysis
+  const t = (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values)
+  writer.heading(t("proposal.yourSpace"))
+  writer.label(t("proposal.layout"), t(`layoutType.${spaceAnalysis.layoutType}`))
+  writer.label(
+    t("proposal.dimensions"),
+    t("proposal.dimensionsValue", {
+      lengthFt: formatNumber(locale, roomDimensions.lengthFt),
+      widthFt: formatNumber(locale, roomDimensions.widthFt),
+      heightFt: formatNumber(locale, ceilingHeight.heightFt),
+      lengthM: formatNumber(locale, roomDimensions.lengthM),
+      widthM: formatNumber(locale, roomDimensions.widthM),
+      heightM: formatNumber(locale, ceilingHeight.heightM),
+    }),
+  )
+  writer.label(t("proposal.lighting"), spaceAnalysis.lightingSituation)
+  writer.bullets(
+    t("proposal.windows"),
+    spaceAnalysis.windows.map((window) => `${window.description} (${window.wall})`),
+  )
+  writer.bullets(
+    t("proposal.doors"),
+    spaceAnalysis.doors.map((door) => `${door.description} (${door.wall})`),
+  )
+  writer.bullets(
+    t("proposal.challenges"),
+    spaceAnalysis.challenges.map((challenge) => challenge.text),
+  )
+  writer.bullets(
+    t("proposal.opportunities"),
+    spaceAnalysis.opportunities.map((opportunity) => opportunity.text),
+  )
+}
+
+function writeCostBreakdown(writer: PageWriter, estimate: CostEstimate, locale: Locale) {
+  const t = (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values)
+  const amount = (value: number) => formatCurrency(locale, value, estimate.currency)
+  writer.bullets(t("proposal.costBreakdown"), [
+    ...estimate.lineItems.map((item) => t("proposal.costLine", { label: item.label, amount: amount(item.total) })),
+    t("proposal.costLine", { label: t("proposal.subtotal"), amount: amount(estimate.subtotal) }),
+    t("proposal.costLine", { label: estimate.tax.label, amount: amount(estimate.tax.amount) }),
+    t("proposal.costLine", { label: t("proposal.total"), amount: amount(estimate.total) }),
+  ])
+}
+
+async function writeDesign(
+  writer: PageWriter,
+  doc: PDFDocument,
+  design: GeneratedDesign,
+  index: number,
+  locale: Locale,
+) {
+  const t = (key: MessageKey) => translate(locale, key)
+  writer.newPage()
+  writer.heading(translate(locale, "proposal.option", { number: index + 1, name: design.styleName }), 18)
+
+  const image = await embedRender(doc, design.renderId)
+  if (image) {
+    writer.image(image, 300)
+  } else {
+    writer.text(t("proposal.noRender"), { color: MUTED_COLOR })
+  }
+
+  writer.gap(6)
+  writer.text(design.description)
+  if (design.whyThisWorks) {
+    writer.gap(4)
+    writer.text(design.whyThisWorks, { color: MUTED_COLOR })
+  }
+  writer.gap(6)
+  writer.label(t("proposal.cabinetStyle"), design.cabinetStyle)
+  writer.label(t("proposal.colorPalette"), design.colorPalette)
+  writer.bullets(t("proposal.keyFeatures"), design.keyFeatures)
+  writer.bullets(t("proposal.storageFeatures"), design.storageFeatures)
+  writer.bullets(t("proposal.layoutOptimization"), design.layoutOptimization)
+  writer.label(t("proposal.estimatedCost"), design.estimatedCost)
+  writeCostBreakdown(writer, design.costEstimate, locale)
+  writer.label(t("proposal.timeline"), design.timeline)
+}
+
+// English titles are title case; French ones keep the noun lowercase
+function roomTitle(proposal: Proposal): string {
+  const { noun } = ROOM_PROFILES[proposal.roomType].copy[proposal.locale]
+  return proposal.locale === "en-CA" ? noun.replace(/\b\w/g, (letter) => letter.toUpperCase()) : noun
+}
+
+// Headings follow the proposal's locale; design copy is stored already localized
+export async function renderProposalPdf(proposal: Proposal, brand: BrandProfile): Promise<Uint8Array> {
+  const { locale } = proposal
+  const doc = await PDFDocument.create()
+  doc.setTitle(translate(locale, "proposal.documentTitle", { company: brand.companyName, name: proposal.contact.name }))
+  doc.setAuthor(brand.companyName)
+  doc.setCreator(translate(locale, "proposal.creator", { company: brand.companyName, product: brand.productName }))
+  doc.setLanguage(locale)
+
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  }
+  const writer = createPageWriter(doc, fonts, brand.companyName)
+
+  writer.gap(40)
+  writer.text(translate(locale, "proposal.title", { room: roomTitle(proposal) }), {
+    size: 26,
+    bold: true,
+    color: BRAND_COLOR,
+  })
+  writer.text(`${brand.companyName} - ${brand.tagline}, ${brand.city}`, { size: 12, color: MUTED_COLOR })
+  writer.gap(24)
+
+  writer.heading(translate(locale, "proposal.preparedFor"))
+  writer.text(proposal.contact.name)
+  writer.text(proposal.contact.email)
+  if (proposal.contact.phone) writer.text(proposal.contact.phone)
+  writer.text(translate(locale, "proposal.preparedOn", { date: formatDate(locale, new Date()) }), { color: MUTED_COLOR })
+
+  if (proposal.spaceAnalysis) {
+    writeSpaceSummary(writer, proposal.spaceAnalysis, locale)
+  }
+
+  for (let index = 0; index < proposal.designs.length; index++) {
+    await writeDesign(writer, doc, proposal.designs[index], index, locale)
+  }
+
+  writer.gap(24)
+  writer.text(translate(locale, "proposal.disclaimer"), { size: 8, color: MUTED_COLOR })
+
+  return doc.save()
+}
@@ -0,0 +1,15 @@
+import { z } from "zod"
+import { LOCALES } from "@/lib/i18n"
+
+// Proposals are built from a stored design session, so the designs, prices
+// and contact details are the ones we generated and captured
+export const proposalRequestSchema = z.object({
+  sessionId: z.string().uuid(),
+  // Defaults to every design in the session, in the order they were made
+  designIds: z.array(z.string().uuid()).min(1).max(10).optional(),
+  // Language for errors raised before the session is found; the proposal
+  // itself is written in the session's language
+  locale: z.enum(LOCALES).optional(),
+})
+
+export type ProposalRequest = z.infer<typeof proposalRequestSchema>
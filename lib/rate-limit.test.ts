@@ -0,0 +1,64 @@
+import assert from "node:assert/strict"
+import { beforeEach, describe, it } from "node:test"
+import { checkRateLimit, createInMemoryRateLimitStore, setRateLimitStore } from "@/lib/rate-limit"
+
+// Default quotas: analyze allows 5 a minute per IP, generate 5 a day per email
+
+const SECOND = 1000
+const start = Date.parse("2026-10-20T15:00:00Z")
+
+describe("checkRateLimit", () => {
+  beforeEach(() => {
+    setRateLimitStore(createInMemoryRateLimitStore())
+  })
+
+  it("frees a slot once the oldest hit leaves the window", async () => {
+    const identity = { ip: "203.0.113.7" }
+    // One call every 10 seconds uses up the minute
+    for (let call = 0; call < 5; call++) {
+      const result = await checkRateLimit("analyze", identity, start + call * 10 * SECOND)
+      assert.equal(result.allowed, true)
+      assert.equal(result.remaining, 4 - call)
+    }
+
+    const blocked = await checkRateLimit("analyze", identity, start + 50 * SECOND)
+    assert.equal(blocked.allowed, false)
+    assert.equal(blocked.resetSeconds, 10)
+
+    // The first call slides out; the other four are still in the window
+    const freed = await checkRateLimit("analyze", identity, start + 60 * SECOND + 1)
+    assert.equal(freed.allowed, true)
+    assert.equal(freed.remaining, 0)
+    assert.equal((await checkRateLimit("analyze", identity, start + 61 * SECOND)).allowed, false)
+  })
+
+  it("doesn't count rejected calls", async () => {
+    const identity = { ip: "203.0.113.7" }
+    for (let call = 0; call < 5; call++) await checkRateLimit("analyze", identity, start)
+    for (let retry = 1; retry <= 30; retry++) {
+      assert.equal((await checkRateLimit("analyze", identity, start + retry * SECOND)).allowed, false)
+    }
+
+    // Retries while blocked would otherwise keep the window full
+    assert.equal((await checkRateLimit("analyze", identity, start + 60 * SECOND + 1)).allowed, true)
+  })
+
+  it("counts an email's calls across addresses", async () => {
+    for (let call = 0; call < 5; call++) {
+      const identity = { ip: `198.51.100.${call}`, email: "Pat@Example.com" }
+      assert.equal((await checkRateLimit("generate", identity, start + call * SECOND)).allowed, true)
+    }
+
+    const blocked = await checkRateLimit("generate", { ip: "198.51.100.9", email: " pat@example.com" }, start)
+    assert.equal(blocked.allowed, false)
+    assert.equal((await checkRateLimit("generate", { ip: "198.51.100.9", email: "sam@example.com" }, start)).allowed, true)
+  })
+
+  it("keeps each action's quota separate", async () => {
+    const identity = { ip: "203.0.113.7" }
+    for (let call = 0; call < 5; call++) await checkRateLimit("analyze", identity, start)
+
+    assert.equal((await checkRateLimit("analyze", identity, start)).allowed, false)
+    assert.equal((await checkRateLimit("refine", identity, start)).allowed, true)
+  })
+})
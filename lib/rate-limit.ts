@@ -0,0 +1,272 @@
+import { randomUUID } from "crypto"
+import type { NextRequest } from "next/server"
+import type { ApiClient } from "@/lib/api-clients"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+// Sliding-window rate limiting keyed by client IP and contact email, counted
+// separately for each API client
+
+export type RateLimitedAction = "analyze" | "generate" | "refine" | "book" | "admin-login"
+
+type RateLimitScope = "ip" | "email" | "client"
+
+type RateLimitRule = {
+  scope: RateLimitScope
+  limit: number
+  windowMs: number
+}
+
+export type RateLimitIdentity = {
+  ip: string
+  email?: string | null
+  // The registry can give a client its own quotas in place of the defaults
+  client?: ApiClient | null
+}
+
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Seconds until the most restrictive window frees a slot
+  resetSeconds: number
+}
+
+// One rule's window for one subject
+export type RateLimitWindow = { key: string; limit: number; windowMs: number }
+
+// Hits in a window before the current call, and when the oldest was made
+export type WindowUsage = { hits: number; oldestHit: number | null }
+
+// Storage for hit timestamps. The in-memory store suits a single instance;
+// use the Redis adapter when running several.
+export interface RateLimitStore {
+  // Counts each window's recent hits and, only when every window is under its
+  // limit, records a hit at `now` in all of them. Counting and recording must
+  // be one atomic step so concurrent calls can't all pass the same check.
+  consume(windows: RateLimitWindow[], now: number): Promise<WindowUsage[]>
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+// Generation makes several HD image calls, so it gets much stricter quotas
+const RATE_LIMITS: Record<RateLimitedAction, RateLimitRule[]> = {
+  analyze: [
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_ANALYZE_PER_MINUTE", 5), windowMs: MINUTE },
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_ANALYZE_PER_HOUR", 30), windowMs: HOUR },
+  ],
+  generate: [
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_GENERATE_PER_HOUR", 5), windowMs: HOUR },
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_GENERATE_PER_DAY", 10), windowMs: DAY },
+    { scope: "email", limit: limitFromEnv("RATE_LIMIT_GENERATE_PER_EMAIL_PER_DAY", 5), windowMs: DAY },
+  ],
+  // One image call each, so looser than generate
+  refine: [
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_REFINE_PER_HOUR", 10), windowMs: HOUR },
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_REFINE_PER_DAY", 30), windowMs: DAY },
+  ],
+  // Each booking holds a showroom slot, so callers can't fill the calendar
+  book: [
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_BOOK_PER_HOUR", 5), windowMs: HOUR },
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_BOOK_PER_DAY", 10), windowMs: DAY },
+  ],
+  "admin-login": [
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_ADMIN_LOGIN_PER_HOUR", 10), windowMs: HOUR },
+    { scope: "ip", limit: limitFromEnv("RATE_LIMIT_ADMIN_LOGIN_PER_DAY", 30), windowMs: DAY },
+  ],
+}
+
+function rulesFor(action: RateLimitedAction, client: ApiClient | null | undefined): RateLimitRule[] {
+  // Admin sign-in isn't a client call, so it always uses the defaults
+  const quotas = action === "admin-login" ? undefined : client?.quotas[action]
+  if (!quotas) return RATE_LIMITS[action]
+  return quotas.map((quota) => ({ scope: quota.scope, limit: quota.limit, windowMs: quota.windowSeconds * 1000 }))
+}
+
+export function createInMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, { timestamps: number[]; expiresAt: number }>()
+
+  function sweep(now: number) {
+    hits.forEach((entry, key) => {
+      if (entry.expiresAt <= now) hits.delete(key)
+    })
+  }
+
+  return {
+    // No awaits inside, so nothing else runs between the check and the add
+    async consume(windows, now) {
+      if (hits.size > 10000) sweep(now)
+
+      const usage = windows.map(({ key, windowMs }) => {
+        const entry = hits.get(key)
+        if (!entry) return { hits: 0, oldestHit: null }
+        entry.timestamps = entry.timestamps.filter((timestamp) => timestamp > now - windowMs)
+        return { hits: entry.timestamps.length, oldestHit: entry.timestamps.length > 0 ? entry.timestamps[0] : null }
+      })
+
+      if (windows.every((window, index) => usage[index].hits < window.limit)) {
+        for (const { key, windowMs } of windows) {
+          const entry = hits.get(key) || { timestamps: [], expiresAt: 0 }
+          entry.timestamps.push(now)
+          entry.expiresAt = now + windowMs
+          hits.set(key, entry)
+        }
+      }
+      return usage
+    },
+  }
+}
+
+// The subset of a Redis client (ioredis or node-redis v4 legacy mode) the
+// adapter needs. Hits are kept in sorted sets scored by timestamp.
+export interface RedisLikeClient {
+  eval(script: string, numberOfKeys: number, ...args: (string | number)[]): Promise<unknown>
+}
+
+// Runs as one script so no other call can land between the count and the
+// add. ARGV is now, the new member, then a window length and limit per key.
+// Returns each key's hit count and oldest score (-1 when empty).
+const CONSUME_SCRIPT = `
+local now = tonumber(ARGV[1])
+local allowed = true
+local usage = {}
+for i, key in ipairs(KEYS) do
+  local windowMs = tonumber(ARGV[i * 2 + 1])
+  local limit = tonumber(ARGV[i * 2 + 2])
+  redis.call("ZREMRANGEBYSCORE", key, "-inf", now - windowMs)
+  local hits = redis.call("ZCARD", key)
+  local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+  usage[#usage + 1] = hits
+  usage[#usage + 1] = oldest[2] or "-1"
+  if hits >= limit then allowed = false end
+end
+if allowed then
+  for i, key in ipairs(KEYS) do
+    redis.call("ZADD", key, now, ARGV[2])
+    redis.call("PEXPIRE", key, ARGV[i * 2 + 1])
+  end
+end
+return usage
+`
+
+export function createRedisRateLimitStore(client: RedisLikeClient, prefix = "ratelimit:"): RateLimitStore {
+  return {
+    async consume(windows, now) {
+      const args: (string | number)[] = [now, `${now}-${randomUUID()}`]
+      for (const { windowMs, limit } of windows) args.push(windowMs, limit)
+      const reply = (await client.eval(
+        CONSUME_SCRIPT,
+        windows.length,
+        ...windows.map(({ key }) => prefix + key),
+        ...args,
+      )) as (string | number)[]
+
+      // The reply alternates hit count and oldest score for each key
+      return windows.map((_, index) => {
+        const oldestHit = Number(reply[index * 2 + 1])
+        return { hits: Number(reply[index * 2]), oldestHit: oldestHit < 0 ? null : oldestHit }
+      })
+    },
+  }
+}
+
+function trustedProxyHops(): number {
+  const value = Number(process.env.TRUSTED_PROXY_HOPS ?? 1)
+  return Number.isInteger(value) && value >= 0 ? value : 1
+}
+
+// Each proxy appends the address it received the request from, so only the
+// last TRUSTED_PROXY_HOPS entries of X-Forwarded-For can be believed; the
+// rest is whatever the client sent. Set it to the number of proxies in front
+// of the app (1 on Vercel). With 0, for clients connecting directly, the
+// header can't be trusted at all and every caller shares one "unknown"
+// bucket, since Next.js doesn't expose the socket address to routes.
+export function getClientIp(request: NextRequest): string {
+  if (request.ip) return request.ip
+
+  const trustedHops = trustedProxyHops()
+  if (trustedHops === 0) return "unknown"
+
+  const forwardedFor = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  if (forwardedFor.length > 0) return forwardedFor[Math.max(forwardedFor.length - trustedHops, 0)]
+  return request.headers.get("x-real-ip") || "unknown"
+}
+
+function getRateLimitStore(): RateLimitStore {
+  return singleton("rateLimitStore", createInMemoryRateLimitStore)
+}
+
+export function setRateLimitStore(rateLimitStore: RateLimitStore) {
+  replaceSingleton("rateLimitStore", rateLimitStore)
+}
+
+export async function checkRateLimit(
+  action: RateLimitedAction,
+  identity: RateLimitIdentity,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  const clientId = identity.client?.id ?? "default"
+  const windows: RateLimitWindow[] = []
+  for (const rule of rulesFor(action, identity.client)) {
+    const subject =
+      rule.scope === "ip" ? identity.ip : rule.scope === "email" ? identity.email?.trim().toLowerCase() : clientId
+    if (subject) {
+      windows.push({
+        key: `${clientId}:${action}:${rule.scope}:${rule.windowMs}:${subject}`,
+        limit: rule.limit,
+        windowMs: rule.windowMs,
+      })
+    }
+  }
+
+  // Rejected calls don't count against the quota
+  const usage = windows.length > 0 ? await getRateLimitStore().consume(windows, now) : []
+  const allowed = windows.every((window, index) => usage[index].hits < window.limit)
+  let result: RateLimitResult | null = null
+
+  for (let index = 0; index < windows.length; index++) {
+    const { limit, windowMs } = windows[index]
+    const { hits, oldestHit } = usage[index]
+    const windowAllowed = hits < limit
+    // An allowed call has just used one of the remaining slots
+    const remaining = Math.max(limit - hits - (allowed ? 1 : 0), 0)
+    const resetSeconds = Math.ceil(((oldestHit ?? now) + windowMs - now) / 1000)
+
+    // Report the most restrictive rule: a blocked rule beats an open one,
+    // then the one with the fewest remaining calls.
+    if (
+      !result ||
+      (!windowAllowed && result.allowed) ||
+      (windowAllowed === result.allowed &&
+        (windowAllowed ? remaining < result.remaining : resetSeconds > result.resetSeconds))
+    ) {
+      result = { allowed: windowAllowed, limit, remaining, resetSeconds }
+    }
+  }
+
+  if (!result) {
+    return { allowed: true, limit: 0, remaining: 0, resetSeconds: 0 }
+  }
+  return result
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+  }
+  if (!result.allowed) {
+    headers["Retry-After"] = String(result.resetSeconds)
+  }
+  return headers
+}
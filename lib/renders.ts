@@ -0,0 +1,65 @@
+import { randomUUID } from "crypto"
+import type { StoredBlob } from "@/lib/storage/blob-store"
+import { getBlobStore } from "@/lib/storage/blobs"
+
+// Provider image URLs expire within hours, so every render is copied into
+// our own storage and served from /api/designs/:id/image
+
+const RENDER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+// A stalled or oversized download fails that one render instead of holding up
+// the whole generation. HD renders are a few megabytes.
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000
+const MAX_RENDER_BYTES = 20 * 1024 * 1024
+
+export function renderImagePath(renderId: string): string {
+  return `/api/designs/${renderId}/image`
+}
+
+// Downloads a provider image (http or data: URL) and stores it under a new ID
+export async function persistRender(imageUrl: string): Promise<string> {
+  const response = await fetch(imageUrl, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`Failed to download render: ${response.status}`)
+  }
+
+  const contentType = response.headers.get("content-type") || "image/png"
+  if (!contentType.startsWith("image/")) {
+    throw new Error(`Unexpected render content type: ${contentType}`)
+  }
+
+  const renderId = randomUUID()
+  await getBlobStore().put(`renders/${renderId}`, await readLimited(response, MAX_RENDER_BYTES), contentType)
+  return renderId
+}
+
+// Checks the declared length up front, then counts the bytes actually
+// received, since the header can be missing or wrong
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new Error(`Render is larger than ${maxBytes} bytes`)
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+  if (!response.body) return Buffer.alloc(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+export async function getRender(renderId: string): Promise<StoredBlob | null> {
+  if (!RENDER_ID_PATTERN.test(renderId)) return null
+  return getBlobStore().get(`renders/${renderId}`)
+}
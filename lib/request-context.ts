@@ -0,0 +1,50 @@
+import { randomUUID } from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { type Logger, logger } from "@/lib/logger"
+import { httpDuration, httpRequests } from "@/lib/metrics"
+
+export const REQUEST_ID_HEADER = "X-Request-Id"
+
+export type RequestContext<P> = {
+  params: P
+  requestId: string
+  // Adds the request ID and route to every line
+  log: Logger
+}
+
+// Callers may pass their own ID to correlate with their logs; anything that
+// doesn't look like an ID is replaced
+function requestIdFor(request: NextRequest): string {
+  const incoming = request.headers.get(REQUEST_ID_HEADER)
+  return incoming && /^[\w.-]{8,128}$/.test(incoming) ? incoming : randomUUID()
+}
+
+// Wraps a route handler with a request ID (returned in X-Request-Id), a
+// request-scoped logger, an access log line and the HTTP metrics
+export function instrumentRoute<P = Record<string, never>>(
+  route: string,
+  handler: (request: NextRequest, context: RequestContext<P>) => Promise<Response>,
+): (request: NextRequest, routeContext: { params: P }) => Promise<Response> {
+  return async (request, routeContext) => {
+    const started = Date.now()
+    const requestId = requestIdFor(request)
+    const log = logger.child({ requestId, route })
+
+    let response: Response
+    try {
+      response = await handler(request, { params: routeContext?.params, requestId, log })
+    } catch (error) {
+      log.error("Unhandled route error", { error })
+      response = NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+
+    const durationMs = Date.now() - started
+    const labels = { route, method: request.method }
+    httpRequests.inc({ ...labels, status: String(response.status) })
+    httpDuration.observe(labels, durationMs / 1000)
+    log.info("Request completed", { method: request.method, status: response.status, durationMs })
+
+    response.headers.set(REQUEST_ID_HEADER, requestId)
+    return response
+  }
+}
@@ -0,0 +1,191 @@
+import type { DesignTier } from "@/lib/designs/cost"
+import type { Locale } from "@/lib/i18n"
+import type { LayoutType } from "@/lib/space-analysis"
+
+export const ROOM_TYPES = ["kitchen", "vanity", "closet", "mudroom", "built-in"] as const
+
+export type RoomType = (typeof ROOM_TYPES)[number]
+
+export const DEFAULT_ROOM_TYPE: RoomType = "kitchen"
+
+// How the household cooks; only asked for kitchens
+export const COOKING_HABITS = ["daily", "frequent", "occasional", "quick", "minimal", "entertainer"] as const
+
+export type CookingHabit = (typeof COOKING_HABITS)[number]
+
+// Customer-facing copy for one locale
+type RoomCopy = {
+  noun: string
+  layoutOptimization: { fallback: string[]; enhanced: string[] }
+}
+
+export type RoomProfile = {
+  label: string
+  // How the room reads in a prompt, e.g. "a modern bathroom vanity"
+  noun: string
+  // Layouts the analysis may report for this room
+  layoutTypes: LayoutType[]
+  // What the designer should look for when analyzing a photo
+  analysisFocus: string
+  optimizationFocus: string
+  // Fixed materials and fittings described in every render
+  promptSpecs: string
+  // What the customer keeps in the space, for the render's staging. Regional
+  // needs come from the brand profile's climate notes.
+  promptSetting: string
+  // What gets replaced in edit mode; everything else in the photo stays
+  editScope: string
+  // Weeks from sign-off to install, as [min, max]
+  timelines: Record<DesignTier, [number, number]>
+  copy: Record<Locale, RoomCopy>
+}
+
+export const ROOM_PROFILES: Record<RoomType, RoomProfile> = {
+  kitchen: {
+    label: "Kitchen",
+    noun: "kitchen",
+    layoutTypes: ["galley", "l-shaped", "u-shaped", "g-shaped", "island", "peninsula", "single-wall", "open-concept", "other"],
+    analysisFocus: "existing appliances, current cabinet style and condition, and where the sink, range and fridge sit",
+    optimizationFocus: "traffic flow, work triangle and counter space improvements",
+    promptSpecs: "Premium quartz countertops, under-cabinet LED lighting, high-end stainless steel appliances.",
+    promptSetting: "practical storage for everyday and seasonal items",
+    editScope: "the cabinetry, counters, hardware and finishes",
+    timelines: { primary: [10, 12], enhanced: [12, 14], value: [8, 10] },
+    copy: {
+      "en-CA": {
+        noun: "kitchen",
+        layoutOptimization: {
+          fallback: ["Improved workflow efficiency", "Optimized storage placement", "Enhanced counter workspace"],
+          enhanced: ["Smart appliance integration zones", "Hidden storage solutions and secret compartments"],
+        },
+      },
+      "fr-CA": {
+        noun: "cuisine",
+        layoutOptimization: {
+          fallback: ["Circulation de travail plus efficace", "Emplacement optimisé des rangements", "Surface de travail de comptoir améliorée"],
+          enhanced: ["Zones d'intégration d'électroménagers intelligents", "Rangements dissimulés et compartiments secrets"],
+        },
+      },
+    },
+  },
+  vanity: {
+    label: "Bathroom vanity",
+    noun: "bathroom vanity",
+    layoutTypes: ["single-wall", "alcove", "other"],
+    analysisFocus:
+      "the current vanity size and condition, sink count, mirror and medicine cabinet, plumbing locations, ventilation and moisture",
+    optimizationFocus: "counter space beside each sink, clearance in front of the vanity and storage within reach",
+    promptSpecs:
+      "Quartz vanity top with undermount sinks, moisture-resistant cabinetry, wall-mounted mirror with vanity lighting.",
+    promptSetting: "organized daily routines and linens kept close at hand",
+    editScope: "the vanity, vanity top, sinks, mirror, hardware and finishes",
+    timelines: { primary: [6, 8], enhanced: [8, 10], value: [4, 6] },
+    copy: {
+      "en-CA": {
+        noun: "bathroom vanity",
+        layoutOptimization: {
+          fallback: ["Counter space on both sides of each sink", "Drawers sized for daily essentials", "Clear floor in front of the vanity"],
+          enhanced: ["Floating vanity for an open, easy-to-clean floor", "Tall linen tower beside the vanity"],
+        },
+      },
+      "fr-CA": {
+        noun: "meuble-lavabo",
+        layoutOptimization: {
+          fallback: ["Espace de comptoir de chaque côté de chaque lavabo", "Tiroirs dimensionnés pour les essentiels du quotidien", "Plancher dégagé devant le meuble-lavabo"],
+          enhanced: ["Meuble-lavabo suspendu pour un plancher dégagé et facile à nettoyer", "Haute colonne de rangement à côté du meuble-lavabo"],
+        },
+      },
+    },
+  },
+  closet: {
+    label: "Walk-in closet",
+    noun: "walk-in closet",
+    layoutTypes: ["walk-in", "reach-in", "other"],
+    analysisFocus:
+      "the current rods and shelving, wall lengths available for hanging, door swing, ceiling height for double hanging and any window or attic hatch",
+    optimizationFocus: "hanging length, folded storage, shoe storage and room to dress",
+    promptSpecs:
+      "Custom closet system with double and long hanging sections, adjustable shelving, drawer towers and LED rod lighting.",
+    promptSetting: "space for seasonal wardrobes, from heavy coats to summer clothes",
+    editScope: "the closet system, shelving, drawers, rods, hardware and finishes",
+    timelines: { primary: [4, 6], enhanced: [6, 8], value: [3, 4] },
+    copy: {
+      "en-CA": {
+        noun: "walk-in closet",
+        layoutOptimization: {
+          fallback: ["Double hanging where ceiling height allows", "Drawer tower for folded items", "Shoe shelving at eye level"],
+          enhanced: ["Centre island with drawers and a dressing surface", "Pull-down rods to use the full ceiling height"],
+        },
+      },
+      "fr-CA": {
+        noun: "garde-robe",
+        layoutOptimization: {
+          fallback: ["Penderie double là où la hauteur du plafond le permet", "Colonne de tiroirs pour les vêtements pliés", "Tablettes à chaussures à hauteur des yeux"],
+          enhanced: ["Îlot central avec tiroirs et surface d'habillage", "Tringles rabattables pour profiter de toute la hauteur du plafond"],
+        },
+      },
+    },
+  },
+  mudroom: {
+    label: "Mudroom",
+    noun: "mudroom",
+    layoutTypes: ["single-wall", "l-shaped", "galley", "other"],
+    analysisFocus:
+      "the exterior and interior doors, flooring durability, heating vents, space for a bench and where wet boots and coats end up today",
+    optimizationFocus: "a clear path from the door, a place to sit and enough hooks and lockers for everyone",
+    promptSpecs:
+      "Durable painted lockers with coat hooks, bench seating with boot cubbies below, hard-wearing tile floor.",
+    promptSetting: "boots, coats and sports bags kept organized and drying",
+    editScope: "the lockers, bench, cubbies, hooks, hardware and finishes",
+    timelines: { primary: [4, 6], enhanced: [6, 8], value: [3, 4] },
+    copy: {
+      "en-CA": {
+        noun: "mudroom",
+        layoutOptimization: {
+          fallback: ["One locker per family member", "Bench seating beside the door", "Boot drying zone over a washable floor"],
+          enhanced: ["Drop zone with charging for phones and keys", "Closed upper storage for off-season gear"],
+        },
+      },
+      "fr-CA": {
+        noun: "vestibule",
+        layoutOptimization: {
+          fallback: ["Un casier par membre de la famille", "Banc près de la porte", "Zone de séchage des bottes sur un plancher lavable"],
+          enhanced: ["Zone de dépôt avec recharge pour téléphones et clés", "Rangement fermé en hauteur pour l'équipement hors saison"],
+        },
+      },
+    },
+  },
+  "built-in": {
+    label: "Living room built-in",
+    noun: "living room built-in",
+    layoutTypes: ["single-wall", "alcove", "open-concept", "other"],
+    analysisFocus:
+      "the wall the built-in will go on, fireplace or TV placement, outlets and cabling, windows and any alcoves either side of the chimney",
+    optimizationFocus: "balanced proportions, display space, concealed storage and cable management",
+    promptSpecs:
+      "Floor-to-ceiling built-in cabinetry with closed base cabinets, open display shelving and integrated shelf lighting.",
+    promptSetting: "books, games and display pieces with everyday clutter hidden away",
+    editScope: "the built-in cabinetry, shelving, hardware and finishes",
+    timelines: { primary: [6, 8], enhanced: [8, 10], value: [4, 6] },
+    copy: {
+      "en-CA": {
+        noun: "living room built-in",
+        layoutOptimization: {
+          fallback: ["Closed base cabinets for everyday clutter", "Adjustable display shelving above", "Cabinetry scribed to walls and ceiling"],
+          enhanced: ["Concealed media and cable management", "Lit display niches"],
+        },
+      },
+      "fr-CA": {
+        noun: "meuble encastré du salon",
+        layoutOptimization: {
+          fallback: ["Armoires du bas fermées pour le désordre du quotidien", "Tablettes de présentation réglables au-dessus", "Ébénisterie ajustée aux murs et au plafond"],
+          enhanced: ["Gestion dissimulée du multimédia et des câbles", "Niches de présentation éclairées"],
+        },
+      },
+    },
+  },
+}
+
+export function isRoomType(value: unknown): value is RoomType {
+  return typeof value === "string" && (ROOM_TYPES as readonly string[]).includes(value)
+}
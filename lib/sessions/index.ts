@@ -0,0 +1,156 @@
+import { randomBytes, randomUUID } from "crypto"
+import type { AIProvider } from "@/lib/ai"
+import { type BrandProfile, getBrandProfile, getDefaultBrandProfile } from "@/lib/brands"
+import type { GeneratedDesign } from "@/lib/designs/generate"
+import { DEFAULT_LOCALE, type Locale, translate } from "@/lib/i18n"
+import { type RenderMode, refineImagePrompt } from "@/lib/designs/image-prompt"
+import { renderDesignImage } from "@/lib/designs/render"
+import type { Contact, Preferences } from "@/lib/preferences"
+import type { RoomType } from "@/lib/rooms"
+import { type DesignSession, type SessionStore, createFileSessionStore } from "@/lib/sessions/store"
+import type { SpaceAnalysis } from "@/lib/space-analysis"
+import { getBlobStore } from "@/lib/storage/blobs"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+export type { DesignSession, SessionStore } from "@/lib/sessions/store"
+
+// Shared so every route writes through the same queued file
+function getSessionStore(): SessionStore {
+  return singleton("sessionStore", createFileSessionStore)
+}
+
+export function setSessionStore(sessionStore: SessionStore) {
+  replaceSingleton("sessionStore", sessionStore)
+}
+
+export type NewSession = {
+  leadId: string
+  contact: Contact
+  // The API client that generated it, the only one allowed to refine it
+  clientId: string
+  brand: BrandProfile
+  locale: Locale
+  roomType: RoomType
+  preferences: Preferences
+  spaceAnalysis: SpaceAnalysis | null
+  renderMode: RenderMode
+  photo: { buffer: Buffer; mimeType: string }
+}
+
+// Keeps the uploaded photo so later refinements can reuse it
+export async function createSession(input: NewSession): Promise<DesignSession> {
+  const now = new Date().toISOString()
+  const id = randomUUID()
+  const blobKey = `sessions/${id}/photo`
+  await getBlobStore().put(blobKey, input.photo.buffer, input.photo.mimeType)
+
+  const session: DesignSession = {
+    id,
+    shareToken: randomBytes(24).toString("base64url"),
+    createdAt: now,
+    updatedAt: now,
+    leadId: input.leadId,
+    contact: { name: input.contact.name, email: input.contact.email, phone: input.contact.phone || null },
+    clientId: input.clientId,
+    brandProfile: input.brand.id,
+    locale: input.locale,
+    roomType: input.roomType,
+    preferences: input.preferences,
+    spaceAnalysis: input.spaceAnalysis,
+    renderMode: input.renderMode,
+    photo: { blobKey, mimeType: input.photo.mimeType },
+    designs: [],
+  }
+  await getSessionStore().create(session)
+  return session
+}
+
+export function getSession(id: string): Promise<DesignSession | null> {
+  return getSessionStore().get(id)
+}
+
+export function getSessionByShareToken(shareToken: string): Promise<DesignSession | null> {
+  return getSessionStore().getByShareToken(shareToken)
+}
+
+export function listLeadSessions(leadId: string): Promise<DesignSession[]> {
+  return getSessionStore().listByLead(leadId)
+}
+
+export async function addSessionDesign(sessionId: string, design: GeneratedDesign): Promise<void> {
+  await getSessionStore().addDesign(sessionId, design)
+}
+
+// Sessions from before brand profiles, or whose profile has since been
+// removed, fall back to the default brand
+export async function getSessionBrand(session: DesignSession): Promise<BrandProfile> {
+  const brand = session.brandProfile ? await getBrandProfile(session.brandProfile) : null
+  return brand ?? getDefaultBrandProfile()
+}
+
+export function sharePath(session: DesignSession): string {
+  return `/api/shared/${session.shareToken}`
+}
+
+export type RefineResult =
+  | { success: true; design: GeneratedDesign }
+  | { success: false; status: number; error: string }
+
+// Renders a new variation of an existing design with the customer's change
+// applied. The original stays in the session alongside the refinement.
+export async function refineDesign(
+  session: DesignSession,
+  designId: string,
+  change: string,
+  provider: AIProvider,
+  imageBaseUrl: string,
+  economy = false,
+): Promise<RefineResult> {
+  const locale = session.locale ?? DEFAULT_LOCALE
+  const original = session.designs.find((design) => design.designId === designId)
+  if (!original) {
+    return { success: false, status: 404, error: translate(locale, "session.designNotFound") }
+  }
+  if (!original.imagePrompt) {
+    return { success: false, status: 409, error: translate(locale, "refine.noRender") }
+  }
+
+  const photo = await getBlobStore().get(session.photo.blobKey)
+  if (!photo) {
+    return { success: false, status: 410, error: translate(locale, "refine.photoMissing") }
+  }
+
+  const imagePrompt = refineImagePrompt(original.imagePrompt, change)
+  const render = await renderDesignImage(
+    provider,
+    session.renderMode,
+    imagePrompt,
+    { buffer: photo.data, mimeType: photo.contentType },
+    imageBaseUrl,
+    economy,
+  )
+
+  const design: GeneratedDesign = {
+    ...original,
+    ...render,
+    designId: randomUUID(),
+    parentDesignId: original.designId,
+    refinement: change,
+    imagePrompt,
+    imageStatus: "success",
+  }
+  await addSessionDesign(session.id, design)
+  return { success: true, design }
+}
+
+// Read-only view for share links: no lead reference, share token or prompts
+export function toSharedSession(session: DesignSession) {
+  return {
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    roomType: session.roomType,
+    preferences: session.preferences,
+    spaceAnalysis: session.spaceAnalysis,
+    designs: session.designs.map(({ imagePrompt, ...design }) => design),
+  }
+}
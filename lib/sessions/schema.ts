@@ -0,0 +1,8 @@
+import { z } from "zod"
+
+export const refineRequestSchema = z.object({
+  designId: z.string().uuid(),
+  change: z.string().trim().min(3).max(500),
+})
+
+export type RefineRequest = z.infer<typeof refineRequestSchema>
@@ -0,0 +1,81 @@
+import type { GeneratedDesign } from "@/lib/designs/generate"
+import type { RenderMode } from "@/lib/designs/image-prompt"
+import type { Locale } from "@/lib/i18n"
+import type { Preferences } from "@/lib/preferences"
+import type { RoomType } from "@/lib/rooms"
+import type { SpaceAnalysis } from "@/lib/space-analysis"
+import { createJsonFile, dataPath } from "@/lib/storage/json-file"
+
+// Everything needed to refine a design later without a re-upload
+export type SessionContact = { name: string; email: string; phone: string | null }
+
+export type DesignSession = {
+  id: string
+  // Grants read-only access; kept separate from the ID, which allows refinement
+  shareToken: string
+  createdAt: string
+  updatedAt: string
+  leadId: string
+  // Who the customer said they were for this session. A lead matched by phone
+  // number alone may be someone else, so proposals and invites are addressed
+  // from here; missing on older sessions, which use the lead.
+  contact?: SessionContact
+  // API client that created the session; missing on older sessions, which
+  // can't be refined
+  clientId?: string
+  // Brand profile the designs were written for; missing on older sessions
+  brandProfile?: string
+  // Language and units of the design copy; missing on older sessions
+  locale?: Locale
+  roomType: RoomType
+  preferences: Preferences
+  spaceAnalysis: SpaceAnalysis | null
+  renderMode: RenderMode
+  photo: { blobKey: string; mimeType: string }
+  designs: GeneratedDesign[]
+}
+
+export interface SessionStore {
+  create(session: DesignSession): Promise<void>
+  get(id: string): Promise<DesignSession | null>
+  getByShareToken(shareToken: string): Promise<DesignSession | null>
+  listByLead(leadId: string): Promise<DesignSession[]>
+  addDesign(id: string, design: GeneratedDesign): Promise<DesignSession | null>
+}
+
+export function createFileSessionStore(filePath = dataPath("sessions.json")): SessionStore {
+  const file = createJsonFile<DesignSession[]>(filePath, () => [])
+
+  return {
+    async create(session) {
+      await file.update((sessions) => {
+        sessions.push(session)
+      })
+    },
+
+    async get(id) {
+      const sessions = await file.read()
+      return sessions.find((session) => session.id === id) || null
+    },
+
+    async getByShareToken(shareToken) {
+      const sessions = await file.read()
+      return sessions.find((session) => session.shareToken === shareToken) || null
+    },
+
+    async listByLead(leadId) {
+      const sessions = await file.read()
+      return sessions.filter((session) => session.leadId === leadId)
+    },
+
+    addDesign(id, design) {
+      return file.update((sessions) => {
+        const session = sessions.find((candidate) => candidate.id === id)
+        if (!session) return null
+        session.designs.push(design)
+        session.updatedAt = new Date().toISOString()
+        return session
+      })
+    },
+  }
+}
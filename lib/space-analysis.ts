@@ -0,0 +1,240 @@
+import { z } from "zod"
+import type { BrandProfile } from "@/lib/brands"
+import { LOCALE_PROFILES, type Locale } from "@/lib/i18n"
+import { ROOM_PROFILES, type RoomType } from "@/lib/rooms"
+
+const FEET_TO_METRES = 0.3048
+
+export const LAYOUT_TYPES = [
+  "galley",
+  "l-shaped",
+  "u-shaped",
+  "g-shaped",
+  "island",
+  "peninsula",
+  "single-wall",
+  "open-concept",
+  "walk-in",
+  "reach-in",
+  "alcove",
+  "other",
+] as const
+
+export type LayoutType = (typeof LAYOUT_TYPES)[number]
+
+const LAYOUT_LABELS: Record<LayoutType, string> = {
+  galley: "galley",
+  "l-shaped": "L-shaped",
+  "u-shaped": "U-shaped",
+  "g-shaped": "G-shaped",
+  island: "island",
+  peninsula: "peninsula",
+  "single-wall": "single-wall",
+  "open-concept": "open-concept",
+  "walk-in": "walk-in",
+  "reach-in": "reach-in",
+  alcove: "alcove",
+  other: "custom",
+}
+
+const confidence = z.number().min(0).max(1)
+
+function toMetres(feet: number): number {
+  return Math.round(feet * FEET_TO_METRES * 100) / 100
+}
+
+// 1-based numbers of the uploaded photos a finding was seen in
+const photoRefs = z.array(z.number().int().positive()).default([])
+
+// Findings name the photos they came from. Plain strings, as sent back by
+// older clients, are accepted without photo references.
+const finding = z.union([
+  z.string().transform((text) => ({ text, photos: [] as number[] })),
+  z.object({ text: z.string(), photos: photoRefs }),
+])
+
+// Schema for a space analysis. Metric values are derived here rather than
+// asked for, so feet and metres can never disagree. Metric fields sent back
+// by clients are stripped and recomputed.
+export const spaceAnalysisSchema = z.object({
+  // False when the photos don't show a room that can be designed for.
+  // Analyses saved before this field existed were all usable.
+  usableRoom: z.boolean().default(true),
+  layoutType: z.enum(LAYOUT_TYPES),
+  layoutConfidence: confidence,
+  roomDimensions: z
+    .object({
+      lengthFt: z.number().positive().max(100),
+      widthFt: z.number().positive().max(100),
+      confidence,
+    })
+    .transform((dims) => ({
+      lengthFt: dims.lengthFt,
+      widthFt: dims.widthFt,
+      lengthM: toMetres(dims.lengthFt),
+      widthM: toMetres(dims.widthFt),
+      confidence: dims.confidence,
+    })),
+  ceilingHeight: z
+    .object({
+      heightFt: z.number().positive().max(30),
+      confidence,
+    })
+    .transform((ceiling) => ({
+      heightFt: ceiling.heightFt,
+      heightM: toMetres(ceiling.heightFt),
+      confidence: ceiling.confidence,
+    })),
+  windows: z.array(
+    z.object({
+      wall: z.string().min(1),
+      description: z.string().min(1),
+      naturalLight: z.enum(["low", "moderate", "high"]),
+      photos: photoRefs,
+    }),
+  ),
+  doors: z.array(
+    z.object({
+      wall: z.string().min(1),
+      type: z.enum(["hinged", "sliding", "pocket", "french", "open-doorway", "other"]),
+      description: z.string().min(1),
+      photos: photoRefs,
+    }),
+  ),
+  existingFeatures: z.array(finding),
+  challenges: z.array(finding),
+  opportunities: z.array(finding),
+  lightingSituation: z.string().min(1),
+  architecturalElements: z.array(finding),
+  recommendedStyles: z.array(finding),
+  spaceOptimization: z.array(finding),
+  overallConfidence: confidence,
+})
+
+// The vision model also returns a prose narrative, which is kept apart from
+// the structured analysis and surfaced as `originalAnalysis`.
+const visionAnalysisSchema = spaceAnalysisSchema.extend({
+  narrative: z.string().min(1),
+})
+
+export type SpaceAnalysis = z.output<typeof spaceAnalysisSchema>
+export type SpaceFinding = SpaceAnalysis["challenges"][number]
+
+const FINDING_FIELDS = [
+  "existingFeatures",
+  "challenges",
+  "opportunities",
+  "architecturalElements",
+  "recommendedStyles",
+  "spaceOptimization",
+] as const
+
+// Labels are optional; unlabelled photos are referred to by number only
+export function describePhoto(index: number, label: string | null): string {
+  return label ? `Photo ${index + 1} (${label})` : `Photo ${index + 1}`
+}
+
+// Each room type gets its own analysis brief; the response schema is shared
+export function createSpaceAnalysisPrompt(
+  roomType: RoomType,
+  brand: BrandProfile,
+  locale: Locale,
+  photoLabels: (string | null)[] = [null],
+): string {
+  const room = ROOM_PROFILES[roomType]
+  const photos = photoLabels.map((label, index) => describePhoto(index, label))
+  const { language, units } = LOCALE_PROFILES[locale]
+  // The numeric fields stay in feet either way; metric values are derived
+  const textUnits = units === "metric" ? "metres and centimetres" : "feet and inches"
+
+  return `As a professional ${room.noun} designer for ${brand.companyName} in ${brand.city}, analyze this ${room.noun} space in detail.
+
+You are given ${photos.length === 1 ? "1 photo" : `${photos.length} photos of the same space, taken from different angles`}: ${photos.join(", ")}. Combine everything you can see into one analysis of the whole room. For each window, door and finding, list in "photos" the numbers of the photos it is visible in.
+
+Respond with a single JSON object and nothing else, using exactly these fields:
+
+{
+  "usableRoom": boolean (false if the photos don't show a ${room.noun} or the space where one would go),
+  "layoutType": one of ${room.layoutTypes.map((type) => `"${type}"`).join(", ")},
+  "layoutConfidence": number from 0 to 1,
+  "roomDimensions": { "lengthFt": number, "widthFt": number, "confidence": number from 0 to 1 },
+  "ceilingHeight": { "heightFt": number, "confidence": number from 0 to 1 },
+  "windows": [{ "wall": string, "description": string, "naturalLight": "low" | "moderate" | "high", "photos": number[] }],
+  "doors": [{ "wall": string, "type": "hinged" | "sliding" | "pocket" | "french" | "open-doorway" | "other", "description": string, "photos": number[] }],
+  "existingFeatures": finding[] (flooring, wall materials and colours, ${room.analysisFocus}),
+  "challenges": finding[] (key challenges to address),
+  "opportunities": finding[] (storage and layout improvement opportunities),
+  "lightingSituation": string (natural and artificial lighting),
+  "architecturalElements": finding[] (beams, bulkheads, columns, soffits, plumbing or venting constraints),
+  "recommendedStyles": finding[] (${room.noun} styles that would work best in this space),
+  "spaceOptimization": finding[] (${room.optimizationFocus}),
+  "overallConfidence": number from 0 to 1,
+  "narrative": string (a detailed prose analysis covering layout, existing features, space assessment, design opportunities and style recommendations, including colour palette suggestions based on lighting and material recommendations for ${brand.city} homes, written in a ${brand.tone} tone)
+}
+
+Each finding is { "text": string, "photos": number[] }. Dimensions are in feet and must be plain numbers. Identify walls consistently (for example "left wall", "back wall", "right wall") so windows and doors can be placed in a design. Use lower confidence values when parts of the room are not visible. Consider ${brand.city}'s climate (${brand.climate.summary}) and lifestyle.
+
+Write every text value in ${language}, giving any measurements in the text in ${textUnits}. Keep the field names and the quoted option values exactly as listed.`
+}
+
+export type SpaceAnalysisParseResult =
+  | { success: true; spaceAnalysis: SpaceAnalysis; narrative: string }
+  | { success: false; errors: string[] }
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+}
+
+// Drops references to photos that weren't uploaded rather than failing the
+// whole analysis over a miscounted photo
+function keepKnownPhotos<T extends { photos: number[] }>(items: T[], photoCount: number): T[] {
+  return items.map((item) => ({ ...item, photos: item.photos.filter((photo) => photo <= photoCount) }))
+}
+
+export function parseSpaceAnalysis(text: string, photoCount = 1): SpaceAnalysisParseResult {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { success: false, errors: ["Response was not valid JSON"] }
+  }
+
+  const result = visionAnalysisSchema.safeParse(json)
+  if (!result.success) {
+    return { success: false, errors: formatIssues(result.error) }
+  }
+
+  const { narrative, ...spaceAnalysis } = result.data
+  spaceAnalysis.windows = keepKnownPhotos(spaceAnalysis.windows, photoCount)
+  spaceAnalysis.doors = keepKnownPhotos(spaceAnalysis.doors, photoCount)
+  for (const field of FINDING_FIELDS) {
+    spaceAnalysis[field] = keepKnownPhotos(spaceAnalysis[field], photoCount)
+  }
+  return { success: true, spaceAnalysis, narrative }
+}
+
+// Describes the analyzed room for image prompts so renders match the
+// customer's actual space.
+export function describeSpaceForPrompt(analysis: SpaceAnalysis): string {
+  const { roomDimensions, ceilingHeight } = analysis
+  let description = `Room layout: ${LAYOUT_LABELS[analysis.layoutType]}, approximately ${roomDimensions.lengthFt}' x ${roomDimensions.widthFt}' with ${ceilingHeight.heightFt}' ceilings. `
+
+  if (analysis.windows.length > 0) {
+    const windows = analysis.windows.map((window) => `${window.description} on the ${window.wall}`)
+    description += `Windows: ${windows.join("; ")}. `
+  }
+
+  if (analysis.doors.length > 0) {
+    const doors = analysis.doors.map((door) =>
+      door.type === "open-doorway" ? `open doorway on the ${door.wall}` : `${door.type} door on the ${door.wall}`,
+    )
+    description += `Doors: ${doors.join("; ")}. `
+  }
+
+  if (analysis.architecturalElements.length > 0) {
+    const elements = analysis.architecturalElements.map((element) => element.text)
+    description += `Keep these architectural elements: ${elements.join(", ")}. `
+  }
+
+  return description
+}
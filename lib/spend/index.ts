@@ -0,0 +1,217 @@
+import type { AIProvider } from "@/lib/ai"
+import type { ImageResult, VisionAnalysisResult } from "@/lib/ai/types"
+import { logger } from "@/lib/logger"
+import { estimateImageCost, estimateTokenCost } from "@/lib/spend/pricing"
+import {
+  type SpendOperation,
+  type SpendRecord,
+  type SpendRecordInput,
+  type SpendStore,
+  createFileSpendStore,
+} from "@/lib/spend/store"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+export type { SpendRecord, SpendStore } from "@/lib/spend/store"
+
+function getSpendStore(): SpendStore {
+  return singleton("spendStore", () => createFileSpendStore())
+}
+
+export function setSpendStore(spendStore: SpendStore) {
+  replaceSingleton("spendStore", spendStore)
+}
+
+// Who a provider call was made for. The lead is filled in once it is known,
+// so calls made before lead capture stay tagged with the request only.
+export type SpendContext = {
+  requestId: string
+  leadId: string | null
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 1000000) / 1000000
+}
+
+async function recordSpend(input: SpendRecordInput) {
+  try {
+    await getSpendStore().add({ ...input, estimatedCostUsd: roundUsd(input.estimatedCostUsd) })
+  } catch (error) {
+    // Losing a record must never fail the customer's request
+    logger.error("Could not record AI spend", { error })
+  }
+}
+
+function unpriced(model: string): number {
+  logger.warn("No price listed for model; recording its spend as $0", { model })
+  return 0
+}
+
+// Wraps a provider so every call is recorded with its usage and estimated cost
+export function meterProvider(provider: AIProvider, context: SpendContext): AIProvider {
+  async function vision(operation: SpendOperation, result: VisionAnalysisResult) {
+    const inputTokens = result.usage?.inputTokens ?? 0
+    const outputTokens = result.usage?.outputTokens ?? 0
+    await recordSpend({
+      ...context,
+      operation,
+      provider: provider.name,
+      model: result.model,
+      inputTokens,
+      outputTokens,
+      images: 0,
+      estimatedCostUsd: estimateTokenCost(result.model, inputTokens, outputTokens) ?? unpriced(result.model),
+    })
+    return result
+  }
+
+  async function image(operation: SpendOperation, result: ImageResult) {
+    await recordSpend({
+      ...context,
+      operation,
+      provider: provider.name,
+      model: result.model,
+      inputTokens: 0,
+      outputTokens: 0,
+      images: 1,
+      estimatedCostUsd: estimateImageCost(result.model, result.quality, result.size) ?? unpriced(result.model),
+    })
+    return result
+  }
+
+  return {
+    name: provider.name,
+
+    isConfigured() {
+      return provider.isConfigured()
+    },
+
+    async analyzeImage(request) {
+      return vision("analyze", await provider.analyzeImage(request))
+    },
+
+    async screenImages(request) {
+      return vision("screen", await provider.screenImages(request))
+    },
+
+    async generateImage(request) {
+      return image("generate-image", await provider.generateImage(request))
+    },
+
+    async editImage(request) {
+      return image("edit-image", await provider.editImage(request))
+    },
+  }
+}
+
+// SPEND_DAILY_BUDGET_USD and SPEND_MONTHLY_BUDGET_USD cap estimated spend
+// (unset means no cap). SPEND_BUDGET_ACTION picks what happens at a cap:
+// "economy" (default) keeps generating at lower cost, "block" refuses.
+function loadBudgetConfig() {
+  const cap = (value: string | undefined) => {
+    const parsed = value === undefined || value === "" ? NaN : Number(value)
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+  }
+  return {
+    dailyUsd: cap(process.env.SPEND_DAILY_BUDGET_USD),
+    monthlyUsd: cap(process.env.SPEND_MONTHLY_BUDGET_USD),
+    action: process.env.SPEND_BUDGET_ACTION === "block" ? ("block" as const) : ("economy" as const),
+  }
+}
+
+export type BudgetPeriod = {
+  spentUsd: number
+  limitUsd: number | null
+  // Periods are calendar days and months in UTC
+  resetsAt: string
+}
+
+export type BudgetStatus = {
+  mode: "normal" | "economy" | "blocked"
+  daily: BudgetPeriod
+  monthly: BudgetPeriod
+  // Seconds until every exceeded cap has reset; null when none is exceeded
+  retryAfterSeconds: number | null
+}
+
+export async function getBudgetStatus(now = new Date()): Promise<BudgetStatus> {
+  const config = loadBudgetConfig()
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  const dayEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+  const monthEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+
+  const costs = await getSpendStore().monthCosts(now)
+  const daily: BudgetPeriod = {
+    spentUsd: roundUsd(costs[dayStart.toISOString().slice(0, 10)] ?? 0),
+    limitUsd: config.dailyUsd,
+    resetsAt: dayEnd.toISOString(),
+  }
+  const monthly: BudgetPeriod = {
+    spentUsd: roundUsd(Object.keys(costs).reduce((total, day) => total + costs[day], 0)),
+    limitUsd: config.monthlyUsd,
+    resetsAt: monthEnd.toISOString(),
+  }
+
+  const exceeded = [
+    { period: daily, end: dayEnd },
+    { period: monthly, end: monthEnd },
+  ].filter(({ period }) => period.limitUsd !== null && period.spentUsd >= period.limitUsd)
+
+  if (exceeded.length === 0) {
+    return { mode: "normal", daily, monthly, retryAfterSeconds: null }
+  }
+
+  const latestReset = Math.max(...exceeded.map(({ end }) => end.getTime()))
+  return {
+    mode: config.action === "block" ? "blocked" : "economy",
+    daily,
+    monthly,
+    retryAfterSeconds: Math.ceil((latestReset - now.getTime()) / 1000),
+  }
+}
+
+export type SpendBreakdown = {
+  key: string
+  calls: number
+  images: number
+  inputTokens: number
+  outputTokens: number
+  estimatedCostUsd: number
+}
+
+function breakdown(records: SpendRecord[], keyOf: (record: SpendRecord) => string): SpendBreakdown[] {
+  const groups = new Map<string, SpendBreakdown>()
+  for (const record of records) {
+    const key = keyOf(record)
+    const group = groups.get(key) || {
+      key,
+      calls: 0,
+      images: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedCostUsd: 0,
+    }
+    group.calls++
+    group.images += record.images
+    group.inputTokens += record.inputTokens
+    group.outputTokens += record.outputTokens
+    group.estimatedCostUsd = roundUsd(group.estimatedCostUsd + record.estimatedCostUsd)
+    groups.set(key, group)
+  }
+  return Array.from(groups.values()).sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd)
+}
+
+// Totals for [from, to), broken down the ways we get asked about
+export async function summarizeSpend(from: Date, to: Date) {
+  const toIso = to.toISOString()
+  const records = await getSpendStore().list(from, to)
+
+  return {
+    from: from.toISOString(),
+    to: toIso,
+    total: breakdown(records, () => "total")[0] ?? null,
+    byDay: breakdown(records, (record) => record.timestamp.slice(0, 10)).sort((a, b) => a.key.localeCompare(b.key)),
+    byModel: breakdown(records, (record) => record.model),
+    byOperation: breakdown(records, (record) => record.operation),
+    byLead: breakdown(records, (record) => record.leadId ?? "(no lead)"),
+  }
+}
@@ -0,0 +1,64 @@
+// Published OpenAI list prices in USD, used to estimate what each call cost.
+// Update these when the prices change; unknown models are recorded at $0.
+
+// Per million tokens
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  // Priced like the models they stand in for, so budgets can be tried offline
+  "mock-vision": { input: 2.5, output: 10 },
+}
+
+// Per image, keyed by "<quality> <size>"
+const IMAGE_PRICES: Record<string, Record<string, number>> = {
+  "dall-e-3": {
+    "standard 1024x1024": 0.04,
+    "standard 1792x1024": 0.08,
+    "standard 1024x1792": 0.08,
+    "hd 1024x1024": 0.08,
+    "hd 1792x1024": 0.12,
+    "hd 1024x1792": 0.12,
+  },
+  "gpt-image-1": {
+    "low 1024x1024": 0.011,
+    "low 1536x1024": 0.016,
+    "low 1024x1536": 0.016,
+    "medium 1024x1024": 0.042,
+    "medium 1536x1024": 0.063,
+    "medium 1024x1536": 0.063,
+    "high 1024x1024": 0.167,
+    "high 1536x1024": 0.25,
+    "high 1024x1536": 0.25,
+  },
+  "mock-image": { "standard 1024x1024": 0.04, "hd 1024x1024": 0.08 },
+  "mock-image-edit": { "low 1024x1024": 0.011, "high 1024x1024": 0.167 },
+}
+
+// Responses name dated snapshots such as "gpt-4o-2024-08-06", so the longest
+// listed name the model starts with wins
+function lookup<T>(prices: Record<string, T>, model: string): T | null {
+  const match = Object.keys(prices)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? prices[match] : null
+}
+
+export function estimateTokenCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = lookup(TOKEN_PRICES, model)
+  if (!price) return null
+  return (inputTokens * price.input + outputTokens * price.output) / 1000000
+}
+
+export function estimateImageCost(model: string, quality: string, size: string): number | null {
+  const prices = lookup(IMAGE_PRICES, model)
+  if (!prices) return null
+  // "auto" lets the provider choose, so assume the most expensive option
+  const candidates = Object.keys(prices).filter((key) => {
+    const [keyQuality, keySize] = key.split(" ")
+    return (quality === "auto" || keyQuality === quality) && (size === "auto" || keySize === size)
+  })
+  if (candidates.length === 0) return null
+  return Math.max(...candidates.map((key) => prices[key]))
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from "crypto"
+import path from "path"
+import { createDailyLog } from "@/lib/storage/daily-log"
+import { createJsonFile, dataPath } from "@/lib/storage/json-file"
+
+export type SpendOperation = "analyze" | "screen" | "generate-image" | "edit-image"
+
+// One provider call and what it is estimated to have cost
+export type SpendRecord = {
+  id: string
+  timestamp: string
+  requestId: string
+  leadId: string | null
+  operation: SpendOperation
+  provider: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  images: number
+  estimatedCostUsd: number
+}
+
+export type SpendRecordInput = Omit<SpendRecord, "id" | "timestamp">
+
+export interface SpendStore {
+  add(input: SpendRecordInput): Promise<SpendRecord>
+  // Records with from <= timestamp < to, oldest first
+  list(from: Date, to: Date): Promise<SpendRecord[]>
+  // Estimated cost per UTC day (YYYY-MM-DD) of the month `now` falls in.
+  // Kept as records are added, so budget checks don't read every record.
+  monthCosts(now: Date): Promise<Record<string, number>>
+}
+
+type MonthCosts = { month: string; days: Record<string, number> }
+
+// Records go in one file per day and are kept; SPEND_RETENTION_DAYS deletes
+// older days. Running totals for the current month sit beside them.
+export function createFileSpendStore(directory = dataPath("spend")): SpendStore {
+  const log = createDailyLog<SpendRecord>(directory, {
+    retentionDays: Number(process.env.SPEND_RETENTION_DAYS) || undefined,
+    legacyFile: dataPath("spend.json"),
+  })
+  const totals = createJsonFile<MonthCosts>(path.join(directory, "month-costs.json"), () => ({ month: "", days: {} }))
+
+  // A new month, or no totals yet: start again from what has been recorded
+  async function startMonth(costs: MonthCosts, now: Date) {
+    const month = now.toISOString().slice(0, 7)
+    if (costs.month === month) return
+    costs.month = month
+    costs.days = {}
+    for (const record of await log.list(new Date(`${month}-01T00:00:00.000Z`))) {
+      addCost(costs, record)
+    }
+  }
+
+  function addCost(costs: MonthCosts, record: SpendRecord) {
+    const day = record.timestamp.slice(0, 10)
+    costs.days[day] = (costs.days[day] ?? 0) + record.estimatedCostUsd
+  }
+
+  return {
+    add(input) {
+      // Appended under the totals' queue so the two never disagree
+      return totals.update(async (costs) => {
+        const now = new Date()
+        const record: SpendRecord = { id: randomUUID(), timestamp: now.toISOString(), ...input }
+        await startMonth(costs, now)
+        await log.append(record)
+        addCost(costs, record)
+        return record
+      })
+    },
+
+    list(from, to) {
+      return log.list(from, to)
+    },
+
+    async monthCosts(now) {
+      const costs = await totals.read()
+      if (costs.month === now.toISOString().slice(0, 7)) return costs.days
+      return totals.update(async (current) => {
+        await startMonth(current, now)
+        return { ...current.days }
+      })
+    },
+  }
+}
@@ -0,0 +1,53 @@
+// Server-Sent Events helpers for streaming progress to the client
+
+export type SendEvent = (event: string, data: unknown) => void
+
+// Clients opt in with `Accept: text/event-stream` or a `stream=true` form field
+export function wantsEventStream(request: Request, formData: FormData): boolean {
+  return Boolean(request.headers.get("accept")?.includes("text/event-stream")) || formData.get("stream") === "true"
+}
+
+export function eventStreamResponse(
+  headers: Record<string, string>,
+  run: (send: SendEvent) => Promise<void>,
+  // Logs or records a failure; the client is sent a generic error event
+  onError: (error: unknown) => void | Promise<void>,
+): Response {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        // The client may have gone away; the work still finishes
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      try {
+        await run(send)
+      } catch (error) {
+        await onError(error)
+        send("error", { success: false, error: "Failed to process request. Please try again." })
+      }
+
+      if (!closed) {
+        closed = true
+        controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,44 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { dataPath } from "@/lib/storage/json-file"
+
+export type StoredBlob = {
+  data: Buffer
+  contentType: string
+}
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<StoredBlob | null>
+}
+
+// Keys may contain "/" to group blobs; anything that could escape the
+// root directory is rejected
+function resolveKey(root: string, key: string): string {
+  if (!/^[\w-]+(\/[\w-]+)*$/.test(key)) {
+    throw new Error(`Invalid blob key: ${key}`)
+  }
+  return path.join(root, key)
+}
+
+export function createFileBlobStore(root = dataPath("blobs")): BlobStore {
+  return {
+    async put(key, data, contentType) {
+      const filePath = resolveKey(root, key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, data)
+      await fs.writeFile(`${filePath}.json`, JSON.stringify({ contentType, size: data.length }))
+    },
+
+    async get(key) {
+      const filePath = resolveKey(root, key)
+      try {
+        const [data, meta] = await Promise.all([fs.readFile(filePath), fs.readFile(`${filePath}.json`, "utf8")])
+        return { data, contentType: JSON.parse(meta).contentType }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+        throw error
+      }
+    },
+  }
+}
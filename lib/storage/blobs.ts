@@ -0,0 +1,26 @@
+import { type BlobStore, createFileBlobStore } from "@/lib/storage/blob-store"
+import { createS3BlobStore } from "@/lib/storage/s3-blob-store"
+import { replaceSingleton, singleton } from "@/lib/storage/singleton"
+
+function createBlobStoreFromEnv(): BlobStore {
+  if (process.env.BLOB_STORE === "s3") {
+    return createS3BlobStore({
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION}.amazonaws.com`,
+      bucket: process.env.S3_BUCKET || "",
+      region: process.env.S3_REGION || "us-east-1",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+      prefix: process.env.S3_PREFIX,
+    })
+  }
+  return createFileBlobStore()
+}
+
+// BLOB_STORE=s3 selects the S3-compatible store; local files otherwise
+export function getBlobStore(): BlobStore {
+  return singleton("blobStore", createBlobStoreFromEnv)
+}
+
+export function setBlobStore(blobStore: BlobStore) {
+  replaceSingleton("blobStore", blobStore)
+}
@@ -0,0 +1,129 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { type JsonFile, createJsonFile } from "@/lib/storage/json-file"
+
+// An append-only log kept as one JSON file per UTC day, so an append only
+// rewrites today's file and a listing only opens the days it covers
+
+type Timestamped = { timestamp: string }
+
+export type DailyLog<T extends Timestamped> = {
+  append(entry: T): Promise<void>
+  // Entries with from <= timestamp < to, oldest first
+  list(from: Date, to?: Date): Promise<T[]>
+}
+
+export type DailyLogOptions = {
+  // Days older than this are deleted as new days start; kept when unset
+  retentionDays?: number
+  // A single-file log this replaces, split into day files on first use
+  legacyFile?: string
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.json$/
+
+export function createDailyLog<T extends Timestamped>(directory: string, options: DailyLogOptions = {}): DailyLog<T> {
+  // Files being appended to, so their updates queue one at a time
+  const files = new Map<string, JsonFile<T[]>>()
+  let ready: Promise<void> | null = null
+  let prunedDay: string | null = null
+
+  function dayFile(day: string): JsonFile<T[]> {
+    let file = files.get(day)
+    if (!file) {
+      file = createJsonFile<T[]>(path.join(directory, `${day}.json`), () => [])
+      files.set(day, file)
+    }
+    return file
+  }
+
+  async function listDays(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(directory)
+      return names
+        .map((name) => DAY_FILE.exec(name)?.[1])
+        .filter((day): day is string => Boolean(day))
+        .sort()
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+  }
+
+  async function migrate() {
+    if (!options.legacyFile) return
+    let entries: T[]
+    try {
+      entries = JSON.parse(await fs.readFile(options.legacyFile, "utf8")) as T[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return
+      throw error
+    }
+
+    const byDay = new Map<string, T[]>()
+    for (const entry of entries) {
+      const day = entry.timestamp.slice(0, 10)
+      const dayEntries = byDay.get(day) ?? []
+      dayEntries.push(entry)
+      byDay.set(day, dayEntries)
+    }
+    // Nothing is appended until this finishes, so replacing is safe and a
+    // rerun after a crash writes the same files again
+    for (const [day, dayEntries] of Array.from(byDay)) {
+      await dayFile(day).replace(dayEntries)
+    }
+    await fs.rename(options.legacyFile, `${options.legacyFile}.migrated`)
+  }
+
+  function whenReady(): Promise<void> {
+    if (!ready) {
+      ready = migrate().catch((error) => {
+        ready = null
+        throw error
+      })
+    }
+    return ready
+  }
+
+  // Runs once per day, on the first append
+  async function prune(today: string) {
+    if (prunedDay === today) return
+    prunedDay = today
+    files.forEach((_, day) => {
+      if (day !== today) files.delete(day)
+    })
+    if (!options.retentionDays) return
+
+    const cutoff = new Date(Date.parse(today) - options.retentionDays * DAY).toISOString().slice(0, 10)
+    for (const day of await listDays()) {
+      if (day >= cutoff) break
+      await fs.rm(path.join(directory, `${day}.json`), { force: true })
+    }
+  }
+
+  return {
+    async append(entry) {
+      await whenReady()
+      const day = entry.timestamp.slice(0, 10)
+      await dayFile(day).update((entries) => {
+        entries.push(entry)
+      })
+      await prune(day)
+    },
+
+    async list(from, to) {
+      await whenReady()
+      const fromIso = from.toISOString()
+      const toIso = to?.toISOString()
+      const entries: T[] = []
+      for (const day of await listDays()) {
+        if (day < fromIso.slice(0, 10) || (toIso && day > toIso.slice(0, 10))) continue
+        for (const entry of await dayFile(day).read()) {
+          if (entry.timestamp >= fromIso && (!toIso || entry.timestamp < toIso)) entries.push(entry)
+        }
+      }
+      return entries
+    },
+  }
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Local data lives under DATA_DIR (default .data/ in the project root)
+export function dataPath(...segments: string[]): string {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), ...segments)
+}
+
+export type JsonFile<T> = {
+  read(): Promise<T>
+  // Runs read-modify-write cycles one at a time so concurrent updates in
+  // this process don't overwrite each other
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R>
+  replace(data: T): Promise<void>
+}
+
+export function createJsonFile<T>(filePath: string, initial: () => T): JsonFile<T> {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8")) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return initial()
+      throw error
+    }
+  }
+
+  async function write(data: T) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    // Write then rename so readers never see a half-written file
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2))
+    await fs.rename(tempPath, filePath)
+  }
+
+  function enqueue<R>(operation: () => Promise<R>): Promise<R> {
+    const run = queue.then(operation)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  return {
+    read,
+
+    update(mutate) {
+      return enqueue(async () => {
+        const data = await read()
+        const result = await mutate(data)
+        await write(data)
+        return result
+      })
+    },
+
+    replace(data) {
+      return enqueue(() => write(data))
+    },
+  }
+}
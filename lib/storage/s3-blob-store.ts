@@ -0,0 +1,87 @@
+import { createHash, createHmac } from "crypto"
+import type { BlobStore } from "@/lib/storage/blob-store"
+
+export type S3BlobStoreConfig = {
+  // e.g. https://s3.ca-central-1.amazonaws.com or an R2/MinIO endpoint
+  endpoint: string
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  prefix?: string
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest()
+}
+
+// Path-style requests signed with AWS Signature Version 4, which every
+// S3-compatible service accepts
+export function createS3BlobStore(config: S3BlobStoreConfig): BlobStore {
+  const endpoint = new URL(config.endpoint)
+
+  function signedRequest(method: "GET" | "PUT", key: string, body?: Buffer, contentType?: string) {
+    const objectPath = `/${config.bucket}/${(config.prefix || "") + key}`
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")
+    const now = new Date()
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "")
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256Hex(body || "")
+
+    const headers: Record<string, string> = {
+      host: endpoint.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    }
+    if (contentType) headers["content-type"] = contentType
+
+    const signedHeaderNames = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      objectPath,
+      "",
+      signedHeaderNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+      signedHeaderNames.join(";"),
+      payloadHash,
+    ].join("\n")
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n")
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"),
+      "aws4_request",
+    )
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex")
+
+    headers.authorization = `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(";")}, Signature=${signature}`
+
+    return fetch(new URL(objectPath, endpoint), { method, headers, body: body ? new Uint8Array(body) : undefined })
+  }
+
+  return {
+    async put(key, data, contentType) {
+      const response = await signedRequest("PUT", key, data, contentType)
+      if (!response.ok) {
+        throw new Error(`S3 upload failed with ${response.status}`)
+      }
+    },
+
+    async get(key) {
+      const response = await signedRequest("GET", key)
+      if (response.status === 404) return null
+      if (!response.ok) {
+        throw new Error(`S3 download failed with ${response.status}`)
+      }
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get("content-type") || "application/octet-stream",
+      }
+    },
+  }
+}
@@ -0,0 +1,18 @@
+// Next.js bundles each route separately, so module-level state isn't shared
+// between routes. Shared in-process state is kept on globalThis instead.
+const registry = globalThis as unknown as { __urbanWoodspace?: Map<string, unknown> }
+
+function getRegistry(): Map<string, unknown> {
+  if (!registry.__urbanWoodspace) registry.__urbanWoodspace = new Map()
+  return registry.__urbanWoodspace
+}
+
+export function singleton<T>(key: string, create: () => T): T {
+  const values = getRegistry()
+  if (!values.has(key)) values.set(key, create())
+  return values.get(key) as T
+}
+
+export function replaceSingleton<T>(key: string, value: T) {
+  getRegistry().set(key, value)
+}
@@ -9,14 +9,6 @@ const nextConfig = {
   },
   images: {
     unoptimized: true,
-    remotePatterns: [
-      {
-        protocol: "https",
-        hostname: "oaidalleapiprodscus.blob.core.windows.net",
-        port: "",
-        pathname: "/**",
-      },
-    ],
   },
   experimental: {
     missingSuspenseWithCSRBailout: false,